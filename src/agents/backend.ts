@@ -0,0 +1,351 @@
+import { spawn } from 'node:child_process';
+import { AgentConfig, AgentOutputFormat, AgentType } from '../config/schema.js';
+import { AgentRole, AgentStats } from '../types/state.js';
+import { logger } from '../utils/logger.js';
+import { killProcessTree } from '../utils/process.js';
+import { AgentEvent, StreamJsonParser, formatAgentEvent } from './stream-json.js';
+import { FixtureAgentBackend } from './fixture.js';
+
+export type AgentStream = 'stdout' | 'stderr';
+
+export interface AgentRequest {
+  prompt: string;
+  cwd: string;
+  storyId?: string;
+  role?: AgentRole;
+  // Overrides the backend's default model
+  model?: string;
+  onOutput?: (chunk: string, stream: AgentStream) => void;
+  onEvent?: (event: AgentEvent) => void;
+  // Aborting stops the agent the same way a timeout does
+  signal?: AbortSignal;
+}
+
+export interface InteractiveAgentRequest {
+  systemPrompt: string;
+  message: string;
+  cwd: string;
+}
+
+export type AgentTimeout = 'wall' | 'idle';
+
+export interface AgentRunResult {
+  output: string;
+  exitCode: number;
+  success: boolean;
+  timeout?: AgentTimeout;
+  aborted?: boolean;
+  stats?: AgentStats;
+}
+
+export interface AgentTimeouts {
+  timeoutMs?: number;
+  idleTimeoutMs?: number;
+}
+
+// Grace period between SIGTERM and SIGKILL when an agent is stopped
+const KILL_GRACE_MS = 5000;
+
+// Agents run in their own process group and outlive gushter unless killed
+const runningAgents = new Set<number>();
+
+/** Force-kills every running agent's process tree, e.g. before a forced exit. */
+export function killRunningAgents(): void {
+  for (const pid of runningAgents) {
+    killProcessTree(pid, 'SIGKILL');
+  }
+  runningAgents.clear();
+}
+
+export interface AgentBackend {
+  readonly name: string;
+  run(request: AgentRequest): Promise<AgentRunResult>;
+  runInteractive(request: InteractiveAgentRequest): Promise<number>;
+}
+
+export function echoAgentOutput(chunk: string, stream: AgentStream): void {
+  if (stream === 'stdout') {
+    process.stdout.write(chunk);
+  } else {
+    process.stderr.write(chunk);
+  }
+}
+
+interface CliBackendSpec {
+  command: string;
+  printArgs: string[];
+  streamJsonArgs?: string[];
+  // null when the tool cannot choose a model from the command line
+  modelArgs: ((model: string) => string[]) | null;
+  interactiveArgs: ((systemPrompt: string, message: string) => string[]) | null;
+}
+
+const BUILTIN_BACKENDS: Record<Exclude<AgentType, 'command' | 'fixture'>, CliBackendSpec> = {
+  claude: {
+    command: 'claude',
+    printArgs: ['--dangerously-skip-permissions', '--print'],
+    streamJsonArgs: ['--output-format', 'stream-json', '--verbose'],
+    modelArgs: (model) => ['--model', model],
+    interactiveArgs: (systemPrompt, message) => ['--system-prompt', systemPrompt, message],
+  },
+  amp: {
+    command: 'amp',
+    printArgs: ['--dangerously-allow-all', '--execute'],
+    modelArgs: null,
+    interactiveArgs: null,
+  },
+  codex: {
+    command: 'codex',
+    printArgs: ['exec', '--dangerously-bypass-approvals-and-sandbox', '-'],
+    modelArgs: (model) => ['--model', model],
+    interactiveArgs: (systemPrompt, message) => [`${systemPrompt}\n\n${message}`],
+  },
+};
+
+export class CliAgentBackend implements AgentBackend {
+  readonly name: string;
+  private spec: CliBackendSpec;
+  private extraArgs: string[];
+  private env: Record<string, string>;
+  private timeouts: AgentTimeouts;
+  private outputFormat: AgentOutputFormat;
+  private warnedModel = false;
+
+  constructor(
+    name: string,
+    spec: CliBackendSpec,
+    extraArgs: string[] = [],
+    env: Record<string, string> = {},
+    timeouts: AgentTimeouts = {},
+    outputFormat: AgentOutputFormat = 'text'
+  ) {
+    this.name = name;
+    this.spec = spec;
+    this.extraArgs = extraArgs;
+    this.env = env;
+    this.timeouts = timeouts;
+    this.outputFormat = outputFormat;
+  }
+
+  async run(request: AgentRequest): Promise<AgentRunResult> {
+    const streamParser =
+      this.outputFormat === 'stream-json' ? new StreamJsonParser() : null;
+    const args = [
+      ...this.spec.printArgs,
+      ...(streamParser ? this.spec.streamJsonArgs ?? [] : []),
+      ...(request.model ? this.modelArgs(request.model) : []),
+      ...this.extraArgs,
+    ];
+
+    const emitEvents = (events: AgentEvent[]) => {
+      for (const event of events) {
+        request.onEvent?.(event);
+        const line = formatAgentEvent(event);
+        if (line) {
+          request.onOutput?.(line, 'stdout');
+        }
+      }
+    };
+
+    return new Promise((resolve) => {
+      const child = spawn(this.spec.command, args, {
+        cwd: request.cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        env: {
+          ...process.env,
+          GUSHTER_ROLE: request.role ?? 'implementer',
+          ...(request.model ? { GUSHTER_MODEL: request.model } : {}),
+          ...this.env,
+        },
+        // Own process group, so a timeout can kill everything the agent spawned
+        detached: process.platform !== 'win32',
+      });
+
+      const pid = child.pid;
+      if (pid !== undefined) {
+        runningAgents.add(pid);
+      }
+
+      let stdout = '';
+      let stderr = '';
+      let timeout: AgentTimeout | undefined;
+      let aborted = false;
+      let wallTimer: NodeJS.Timeout | undefined;
+      let idleTimer: NodeJS.Timeout | undefined;
+      let killTimer: NodeJS.Timeout | undefined;
+
+      const terminate = () => {
+        if (child.pid === undefined) return;
+        killProcessTree(child.pid, 'SIGTERM');
+        killTimer = setTimeout(() => {
+          if (child.pid !== undefined) {
+            killProcessTree(child.pid, 'SIGKILL');
+          }
+        }, KILL_GRACE_MS);
+      };
+
+      const expire = (kind: AgentTimeout) => {
+        if (timeout || aborted) return;
+        timeout = kind;
+        terminate();
+      };
+
+      const abort = () => {
+        if (timeout || aborted) return;
+        aborted = true;
+        terminate();
+      };
+
+      const resetIdleTimer = () => {
+        if (!this.timeouts.idleTimeoutMs) return;
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => expire('idle'), this.timeouts.idleTimeoutMs);
+      };
+
+      const clearTimers = () => {
+        clearTimeout(wallTimer);
+        clearTimeout(idleTimer);
+        clearTimeout(killTimer);
+        request.signal?.removeEventListener('abort', abort);
+        if (pid !== undefined) {
+          runningAgents.delete(pid);
+        }
+      };
+
+      if (this.timeouts.timeoutMs) {
+        wallTimer = setTimeout(() => expire('wall'), this.timeouts.timeoutMs);
+      }
+      resetIdleTimer();
+      if (request.signal?.aborted) {
+        abort();
+      } else {
+        request.signal?.addEventListener('abort', abort);
+      }
+
+      child.stdout?.on('data', (data: Buffer) => {
+        const chunk = data.toString();
+        stdout += chunk;
+        resetIdleTimer();
+        if (streamParser) {
+          emitEvents(streamParser.push(chunk));
+        } else {
+          request.onOutput?.(chunk, 'stdout');
+        }
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        const chunk = data.toString();
+        stderr += chunk;
+        request.onOutput?.(chunk, 'stderr');
+      });
+
+      child.stdin?.on('error', () => {
+        // Agent exited before reading its prompt; reported via 'close'
+      });
+      child.stdin?.write(request.prompt);
+      child.stdin?.end();
+
+      child.on('close', (code) => {
+        clearTimers();
+        const exitCode = code ?? 1;
+        if (streamParser) {
+          emitEvents(streamParser.flush());
+        }
+        resolve({
+          output: (streamParser ? streamParser.getOutput() : stdout) + stderr,
+          exitCode,
+          success: exitCode === 0 && !timeout && !aborted,
+          timeout,
+          aborted: aborted || undefined,
+          stats: streamParser?.getStats(),
+        });
+      });
+
+      child.on('error', (error) => {
+        clearTimers();
+        resolve({
+          output: `Failed to spawn ${this.spec.command}: ${error.message}`,
+          exitCode: 1,
+          success: false,
+        });
+      });
+    });
+  }
+
+  private modelArgs(model: string): string[] {
+    if (this.spec.modelArgs) {
+      return this.spec.modelArgs(model);
+    }
+    if (!this.warnedModel) {
+      logger.warn(`Agent backend '${this.name}' cannot choose a model; ignoring model ${model}`);
+      this.warnedModel = true;
+    }
+    return [];
+  }
+
+  async runInteractive(request: InteractiveAgentRequest): Promise<number> {
+    if (!this.spec.interactiveArgs) {
+      throw new Error(`Agent backend '${this.name}' does not support interactive sessions`);
+    }
+
+    const args = [
+      ...this.extraArgs,
+      ...this.spec.interactiveArgs(request.systemPrompt, request.message),
+    ];
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.spec.command, args, {
+        cwd: request.cwd,
+        stdio: 'inherit',
+        env: { ...process.env, ...this.env },
+      });
+
+      child.on('close', (code) => {
+        resolve(code ?? 1);
+      });
+
+      child.on('error', (error) => {
+        reject(new Error(`Failed to spawn ${this.spec.command}: ${error.message}`));
+      });
+    });
+  }
+}
+
+export function createAgentBackend(config: AgentConfig): AgentBackend {
+  if (config.type === 'fixture') {
+    return new FixtureAgentBackend(config.fixturePath ?? '');
+  }
+
+  const timeouts: AgentTimeouts = {
+    timeoutMs: config.timeoutMs,
+    idleTimeoutMs: config.idleTimeoutMs,
+  };
+
+  if (config.type === 'command') {
+    return new CliAgentBackend(
+      'command',
+      {
+        command: config.command ?? '',
+        printArgs: [],
+        // The command reads the model from GUSHTER_MODEL
+        modelArgs: () => [],
+        interactiveArgs: null,
+      },
+      config.args,
+      config.env,
+      timeouts,
+      config.outputFormat
+    );
+  }
+
+  const builtin = BUILTIN_BACKENDS[config.type];
+  const spec = config.command ? { ...builtin, command: config.command } : builtin;
+  return new CliAgentBackend(
+    config.type,
+    spec,
+    config.args,
+    config.env,
+    timeouts,
+    config.outputFormat
+  );
+}
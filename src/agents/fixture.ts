@@ -0,0 +1,191 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import {
+  CriterionVerdictSchema,
+  NextActionSchema,
+  OutputStatusSchema,
+} from '../types/output.js';
+import { AgentRole, AgentStats } from '../types/state.js';
+import { sleep } from '../utils/retry.js';
+import { AgentBackend, AgentRequest, AgentRunResult } from './backend.js';
+
+export const FixtureStepSchema = z.object({
+  status: OutputStatusSchema.optional().default('success'),
+  nextAction: NextActionSchema.optional().default('continue'),
+  storyId: z.string().optional(),
+  error: z.string().nullable().optional().default(null),
+  learnings: z.array(z.string()).optional().default([]),
+  // File contents to write, relative to the project; null deletes the file
+  files: z.record(z.string().nullable()).optional().default({}),
+  // Replaces the generated output entirely, e.g. to test malformed blocks
+  output: z.string().optional(),
+  exitCode: z.number().optional().default(0),
+  timeout: z.enum(['wall', 'idle']).optional(),
+  delayMs: z.number().optional().default(0),
+  expectPromptContains: z.array(z.string()).optional().default([]),
+  // Planner steps only: the plan to hand to the implementer
+  plan: z.string().optional(),
+  // Reviewer steps only: the verdicts and summary to report
+  criteria: z.array(CriterionVerdictSchema).optional().default([]),
+  summary: z.string().optional().default(''),
+  model: z.string().optional(),
+  usage: z
+    .object({
+      inputTokens: z.number().optional().default(0),
+      outputTokens: z.number().optional().default(0),
+    })
+    .optional(),
+});
+
+export const FixtureScriptSchema = z.object({
+  stories: z.record(z.array(FixtureStepSchema)).optional().default({}),
+  default: z.array(FixtureStepSchema).optional().default([{}]),
+});
+
+// The top-level script is the implementer's; other roles have their own
+export const FixtureSchema = FixtureScriptSchema.extend({
+  roles: z.record(FixtureScriptSchema).optional().default({}),
+});
+
+export type FixtureStep = z.infer<typeof FixtureStepSchema>;
+export type FixtureScript = z.infer<typeof FixtureScriptSchema>;
+export type Fixture = z.infer<typeof FixtureSchema>;
+
+export function loadFixture(path: string): Fixture {
+  if (!existsSync(path)) {
+    throw new Error(`Fixture file not found: ${path}`);
+  }
+
+  const content = readFileSync(path, 'utf-8');
+  const ext = extname(path).toLowerCase();
+  const raw: unknown =
+    ext === '.yaml' || ext === '.yml' ? parseYaml(content) : JSON.parse(content);
+  return FixtureSchema.parse(raw);
+}
+
+/**
+ * Replays scripted agent responses per story instead of calling a real agent.
+ * Each run for a story consumes its next step; the last step repeats once the
+ * script runs out. Stories without a script use the `default` steps. Runs in
+ * a role other than implementer follow that role's script in `roles`.
+ */
+export class FixtureAgentBackend implements AgentBackend {
+  readonly name = 'fixture';
+  private fixturePath: string;
+  private fixture: Fixture | null = null;
+  private runsPerStory = new Map<string, number>();
+
+  constructor(fixturePath: string) {
+    this.fixturePath = fixturePath;
+  }
+
+  async run(request: AgentRequest): Promise<AgentRunResult> {
+    const fixture = this.getFixture(request.cwd);
+    const storyId = request.storyId ?? 'default';
+    const role = request.role ?? 'implementer';
+    const script = role === 'implementer' ? fixture : fixture.roles[role];
+    const steps = script?.stories[storyId] ?? script?.default ?? [FixtureStepSchema.parse({})];
+    const label = role === 'implementer' ? storyId : `${role} ${storyId}`;
+    const runIndex = this.runsPerStory.get(label) ?? 0;
+    this.runsPerStory.set(label, runIndex + 1);
+
+    const stepIndex = Math.min(runIndex, steps.length - 1);
+    const step = steps[stepIndex];
+    if (!step) {
+      throw new Error(`Fixture has no steps for ${role} of story: ${storyId}`);
+    }
+
+    const header = `[fixture] ${label} step ${stepIndex + 1}/${steps.length}\n`;
+    request.onOutput?.(header, 'stdout');
+
+    if (step.delayMs > 0) {
+      await sleep(step.delayMs, request.signal);
+    }
+    if (request.signal?.aborted) {
+      return { output: header, exitCode: 1, success: false, aborted: true };
+    }
+
+    const missing = step.expectPromptContains.filter((text) => !request.prompt.includes(text));
+    if (missing.length > 0) {
+      const output = `${header}Prompt is missing expected text: ${missing.join(', ')}\n`;
+      request.onOutput?.(output.slice(header.length), 'stderr');
+      return { output, exitCode: 1, success: false };
+    }
+
+    this.applyFiles(request.cwd, step.files);
+
+    const body = step.output ?? this.renderOutput(step, storyId, role);
+    request.onOutput?.(body, 'stdout');
+
+    return {
+      output: header + body,
+      exitCode: step.exitCode,
+      success: step.exitCode === 0 && !step.timeout,
+      timeout: step.timeout,
+      stats: step.usage ? this.toStats(step, request.model) : undefined,
+    };
+  }
+
+  async runInteractive(): Promise<number> {
+    throw new Error("Agent backend 'fixture' does not support interactive sessions");
+  }
+
+  private getFixture(cwd: string): Fixture {
+    this.fixture ??= loadFixture(resolve(cwd, this.fixturePath));
+    return this.fixture;
+  }
+
+  private applyFiles(cwd: string, files: Record<string, string | null>): void {
+    for (const [file, content] of Object.entries(files)) {
+      const path = resolve(cwd, file);
+      if (content === null) {
+        rmSync(path, { force: true });
+      } else {
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, content);
+      }
+    }
+  }
+
+  private renderOutput(step: FixtureStep, storyId: string, role: AgentRole): string {
+    if (role === 'planner') {
+      const plan = step.plan ?? `1. Implement ${storyId}`;
+      return `\`\`\`\`markdown:gushter-plan\n${plan}\n\`\`\`\`\n`;
+    }
+    if (role === 'reviewer') {
+      const review = {
+        storyId: step.storyId ?? storyId,
+        criteria: step.criteria,
+        summary: step.summary,
+      };
+      return `\`\`\`json:gushter-review\n${JSON.stringify(review, null, 2)}\n\`\`\`\n`;
+    }
+
+    const structured = {
+      status: step.status,
+      storyId: step.storyId ?? storyId,
+      filesChanged: Object.keys(step.files),
+      learnings: step.learnings,
+      error: step.error,
+      nextAction: step.nextAction,
+    };
+    return `\`\`\`json:gushter-output\n${JSON.stringify(structured, null, 2)}\n\`\`\`\n`;
+  }
+
+  private toStats(step: FixtureStep, model?: string): AgentStats {
+    return {
+      model: step.model ?? model,
+      turns: 1,
+      toolCalls: {},
+      filesEdited: Object.keys(step.files),
+      usage: {
+        inputTokens: step.usage?.inputTokens ?? 0,
+        outputTokens: step.usage?.outputTokens ?? 0,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+      },
+    };
+  }
+}
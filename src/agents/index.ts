@@ -0,0 +1,3 @@
+export * from './backend.js';
+export * from './stream-json.js';
+export * from './fixture.js';
@@ -0,0 +1,203 @@
+import { AgentStats, TokenUsage } from '../types/state.js';
+
+export type AgentEvent =
+  | { type: 'init'; model?: string; sessionId?: string }
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input: Record<string, unknown> }
+  | { type: 'result'; text: string; isError: boolean; turns?: number; durationMs?: number };
+
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface RawContentBlock {
+  type?: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface RawEvent {
+  type?: string;
+  subtype?: string;
+  model?: string;
+  session_id?: string;
+  message?: {
+    id?: string;
+    model?: string;
+    content?: RawContentBlock[];
+    usage?: RawUsage;
+  };
+  result?: string;
+  is_error?: boolean;
+  num_turns?: number;
+  duration_ms?: number;
+  usage?: RawUsage;
+}
+
+function toTokenUsage(raw: RawUsage): TokenUsage {
+  return {
+    inputTokens: raw.input_tokens ?? 0,
+    outputTokens: raw.output_tokens ?? 0,
+    cacheReadInputTokens: raw.cache_read_input_tokens ?? 0,
+    cacheCreationInputTokens: raw.cache_creation_input_tokens ?? 0,
+  };
+}
+
+function sumUsage(usages: TokenUsage[]): TokenUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cacheReadInputTokens: total.cacheReadInputTokens + usage.cacheReadInputTokens,
+      cacheCreationInputTokens: total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+    }),
+    toTokenUsage({})
+  );
+}
+
+/**
+ * Incrementally parses the newline-delimited JSON event stream printed by
+ * `claude --output-format stream-json`, collecting tool calls, edited files,
+ * turns and token usage along the way.
+ */
+export class StreamJsonParser {
+  private buffer = '';
+  private model?: string;
+  private texts: string[] = [];
+  private resultText: string | null = null;
+  private turns: number | null = null;
+  private toolCalls: Record<string, number> = {};
+  private filesEdited = new Set<string>();
+  // Streamed messages repeat their usage on every content block, so keep one per message
+  private messageUsage = new Map<string, TokenUsage>();
+  private resultUsage: TokenUsage | null = null;
+
+  push(chunk: string): AgentEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.flatMap((line) => this.parseLine(line));
+  }
+
+  flush(): AgentEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return this.parseLine(rest);
+  }
+
+  /** Final result text, falling back to the assistant text seen so far. */
+  getOutput(): string {
+    return this.resultText ?? this.texts.join('\n');
+  }
+
+  getStats(): AgentStats {
+    return {
+      model: this.model,
+      turns: this.turns ?? this.messageUsage.size,
+      toolCalls: { ...this.toolCalls },
+      filesEdited: Array.from(this.filesEdited),
+      usage: this.resultUsage ?? sumUsage(Array.from(this.messageUsage.values())),
+    };
+  }
+
+  private parseLine(line: string): AgentEvent[] {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return [];
+    }
+
+    let raw: RawEvent;
+    try {
+      raw = JSON.parse(trimmed) as RawEvent;
+    } catch {
+      // Not an event (e.g. a warning printed by the CLI); keep it as text
+      this.texts.push(trimmed);
+      return [{ type: 'text', text: trimmed }];
+    }
+
+    switch (raw.type) {
+      case 'system':
+        if (raw.subtype !== 'init') return [];
+        this.model = raw.model ?? this.model;
+        return [{ type: 'init', model: raw.model, sessionId: raw.session_id }];
+      case 'assistant':
+        return this.parseAssistantMessage(raw);
+      case 'result':
+        return [this.parseResult(raw)];
+      default:
+        return [];
+    }
+  }
+
+  private parseAssistantMessage(raw: RawEvent): AgentEvent[] {
+    const message = raw.message;
+    if (!message) {
+      return [];
+    }
+
+    this.model = message.model ?? this.model;
+    if (message.usage) {
+      const key = message.id ?? `message-${this.messageUsage.size}`;
+      this.messageUsage.set(key, toTokenUsage(message.usage));
+    }
+
+    const events: AgentEvent[] = [];
+    for (const block of message.content ?? []) {
+      if (block.type === 'text' && block.text) {
+        this.texts.push(block.text);
+        events.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use' && block.name) {
+        const input = block.input ?? {};
+        this.toolCalls[block.name] = (this.toolCalls[block.name] ?? 0) + 1;
+        if (FILE_EDIT_TOOLS.has(block.name)) {
+          const file = input.file_path ?? input.notebook_path;
+          if (typeof file === 'string') {
+            this.filesEdited.add(file);
+          }
+        }
+        events.push({ type: 'tool_use', name: block.name, input });
+      }
+    }
+    return events;
+  }
+
+  private parseResult(raw: RawEvent): AgentEvent {
+    this.resultText = raw.result ?? '';
+    if (raw.num_turns !== undefined) {
+      this.turns = raw.num_turns;
+    }
+    if (raw.usage) {
+      this.resultUsage = toTokenUsage(raw.usage);
+    }
+    return {
+      type: 'result',
+      text: this.resultText,
+      isError: raw.is_error ?? raw.subtype !== 'success',
+      turns: raw.num_turns,
+      durationMs: raw.duration_ms,
+    };
+  }
+}
+
+/** Renders an event as a human-readable line for the terminal. */
+export function formatAgentEvent(event: AgentEvent): string {
+  switch (event.type) {
+    case 'init':
+      return event.model ? `[agent] model ${event.model}\n` : '';
+    case 'text':
+      return `${event.text}\n`;
+    case 'tool_use': {
+      const target =
+        event.input.file_path ?? event.input.command ?? event.input.pattern ?? event.input.path;
+      return `[tool] ${event.name}${typeof target === 'string' ? ` ${target}` : ''}\n`;
+    }
+    case 'result':
+      return '';
+  }
+}
@@ -4,3 +4,5 @@ export { rollbackCommand, type RollbackOptions } from './rollback.js';
 export { initCommand, type InitOptions } from './init.js';
 export { prdCommand, type PrdOptions } from './prd.js';
 export { prdConvertCommand, type PrdConvertOptions } from './prd-convert.js';
+export { logsCommand, type LogsOptions } from './logs.js';
+export { journalCommand, type JournalOptions } from './journal.js';
@@ -24,17 +24,48 @@ const CLAUDE_MD_TEMPLATE = `# Gushter Agent Instructions
 
 You are an autonomous coding agent working on a software project.
 
+## Current Story
+
+**{{story.id}}: {{story.title}}** (project: {{prd.project}}, branch: \`{{prd.branchName}}\`)
+
+{{story.description}}
+
+**Acceptance Criteria:**
+{{story.acceptanceCriteria}}
+{{#previousError}}
+
+**Previous attempt failed (retry {{retryCount}}):**
+
+{{previousError}}
+{{#agentError}}
+
+You reported: {{agentError}}
+{{/agentError}}
+{{#verificationFailures}}
+
+Fix these failing checks first:
+
+{{verificationFailures}}
+{{/verificationFailures}}
+{{#reviewFailures}}
+
+The reviewer found these acceptance criteria unmet:
+
+{{reviewFailures}}
+{{/reviewFailures}}
+{{/previousError}}
+
 ## Your Task
 
 1. Read the PRD at \`prd.json\`
 2. Read the progress log at \`progress.txt\` (check Codebase Patterns section first)
 3. Check you're on the correct branch from PRD \`branchName\`. If not, check it out or create from main.
-4. Pick the **highest priority** user story where \`passes: false\`
-5. Implement that single user story
-6. Run quality checks (typecheck, lint, test)
-7. If checks pass, commit ALL changes with message: \`feat: [Story ID] - [Story Title]\`
-8. Update the PRD to set \`passes: true\` for the completed story
-9. Append your progress to \`progress.txt\`
+4. Implement **{{story.id}}** only. Do not pick a different story.
+5. Run quality checks (typecheck, lint, test)
+6. Append your progress to \`progress.txt\`{{^autoCommit}}
+7. If checks pass, commit ALL changes with message: \`feat: {{story.id}} - {{story.title}}\`{{/autoCommit}}
+
+{{#autoCommit}}Do not commit or edit \`passes\` in the PRD. Gushter re-runs the checks, marks the story as passing and commits your changes.{{/autoCommit}}{{^autoCommit}}Do not edit \`passes\` in the PRD. Gushter re-runs the checks and marks the story as passing.{{/autoCommit}}
 
 ## Progress Report Format
 
@@ -62,8 +93,8 @@ If you discover a **reusable pattern**, add it to the \`## Codebase Patterns\` s
 
 ## Quality Requirements
 
-- ALL commits must pass quality checks (typecheck, lint, test)
-- Do NOT commit broken code
+- ALL changes must pass quality checks (typecheck, lint, test)
+- Do NOT leave broken code behind
 - Keep changes focused and minimal
 - Follow existing code patterns
 
@@ -74,7 +105,7 @@ At the END of your response, output this JSON block:
 \`\`\`json:gushter-output
 {
   "status": "success",
-  "storyId": "US-001",
+  "storyId": "{{story.id}}",
   "filesChanged": ["src/file.ts"],
   "learnings": ["Pattern discovered"],
   "error": null,
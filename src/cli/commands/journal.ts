@@ -0,0 +1,99 @@
+import chalk from 'chalk';
+import { logger } from '../../utils/logger.js';
+import { JournalEvent } from '../../types/journal.js';
+import { listIterations } from '../../types/state.js';
+import { StateJournal, replayJournal } from '../../core/state-journal.js';
+import { StateStore } from '../../core/state-store.js';
+import { formatCost } from '../../core/usage.js';
+
+export interface JournalOptions {
+  rebuild?: boolean;
+}
+
+function describeEvent(event: JournalEvent): string {
+  switch (event.type) {
+    case 'run:started':
+      return `${event.branchName}, up to ${event.maxIterations} iterations`;
+    case 'run:resumed':
+      return `up to ${event.maxIterations} iterations`;
+    case 'state:snapshot':
+      return `${listIterations(event.state).length} earlier iterations`;
+    case 'iteration:started': {
+      const worktree = event.worktree ? ` in ${event.worktree.path}` : '';
+      return `at ${event.startSha.slice(0, 7)}${worktree}`;
+    }
+    case 'iteration:stats': {
+      const cost = event.costUsd !== undefined ? `, ${formatCost(event.costUsd)} est.` : '';
+      return `${event.stats.turns} turns${cost}`;
+    }
+    case 'iteration:completed':
+      return `at ${event.endSha.slice(0, 7)}`;
+    case 'iteration:failed':
+      return `[${event.reason}] ${event.error}`;
+    case 'rollback':
+      return event.storyId ? '' : 'all iterations';
+    default:
+      return '';
+  }
+}
+
+function eventStoryId(event: JournalEvent): string | undefined {
+  return 'storyId' in event ? event.storyId : undefined;
+}
+
+function rebuildState(journal: StateJournal, store: StateStore): void {
+  const state = replayJournal(journal.read());
+  if (!state) {
+    logger.error(`Nothing to rebuild: ${journal.path} has no events`);
+    process.exit(1);
+  }
+
+  // Rebuilding under a running loop would race its own saves
+  store.acquireLock();
+  try {
+    store.save(state);
+  } finally {
+    store.releaseLock();
+  }
+  logger.success(
+    `Rebuilt ${store.statePath} from the journal (${listIterations(state).length} iterations)`
+  );
+}
+
+export async function journalCommand(
+  storyId?: string,
+  options: JournalOptions = {}
+): Promise<void> {
+  const cwd = process.cwd();
+  const journal = new StateJournal(cwd);
+
+  if (!journal.exists()) {
+    logger.error('No event journal found. Run gushter run first.');
+    process.exit(1);
+  }
+
+  try {
+    if (options.rebuild) {
+      rebuildState(journal, new StateStore(cwd));
+      return;
+    }
+
+    const events = journal
+      .read()
+      .filter((event) => !storyId || eventStoryId(event) === storyId);
+    if (events.length === 0) {
+      logger.warn(storyId ? `No events for story: ${storyId}` : 'The journal is empty');
+      return;
+    }
+
+    for (const event of events) {
+      const story = eventStoryId(event);
+      logger.raw(
+        `${chalk.dim(event.at)}  ${event.type.padEnd(22)}${story ? chalk.bold(story) + ' ' : ''}${describeEvent(event)}`
+      );
+    }
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,259 @@
+import { closeSync, existsSync, openSync, readSync, statSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import chalk from 'chalk';
+import { logger } from '../../utils/logger.js';
+import { sleep } from '../../utils/retry.js';
+import { GushterState, Iteration, listIterations } from '../../types/state.js';
+import { StateStore } from '../../core/state-store.js';
+import {
+  TRANSCRIPT_FILES,
+  TranscriptInfo,
+  listTranscripts,
+  readTranscriptFile,
+  verificationLogName,
+} from '../../core/transcript.js';
+
+export interface LogsOptions {
+  follow?: boolean;
+  verification?: boolean;
+  raw?: boolean;
+  json?: boolean;
+}
+
+interface VerificationSummary {
+  success: boolean;
+  totalDurationMs: number;
+  results: Array<{ name: string; command: string; success: boolean; durationMs: number }>;
+}
+
+const FOLLOW_POLL_MS = 500;
+
+function loadState(cwd: string): GushterState | null {
+  try {
+    return new StateStore(cwd).load();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function findIterationRecord(state: GushterState | null, dir: string): Iteration | undefined {
+  return state ? listIterations(state).find((i) => i.transcriptDir === dir) : undefined;
+}
+
+function selectTranscript(
+  transcripts: TranscriptInfo[],
+  selector?: string
+): TranscriptInfo | undefined {
+  const matches = !selector
+    ? transcripts
+    : /^\d+$/.test(selector)
+      ? transcripts.filter((t) => t.iteration === parseInt(selector, 10))
+      : transcripts.filter((t) => t.storyId === selector);
+  return matches[matches.length - 1];
+}
+
+function readVerification(cwd: string, transcript: TranscriptInfo) {
+  const summaryContent = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.verification);
+  if (!summaryContent) {
+    return null;
+  }
+
+  const summary = JSON.parse(summaryContent) as VerificationSummary;
+  return {
+    ...summary,
+    results: summary.results.map((r, index) => ({
+      ...r,
+      output:
+        readTranscriptFile(
+          cwd,
+          join(transcript.dir, TRANSCRIPT_FILES.verificationDir),
+          verificationLogName(index, r.name)
+        ) ?? '',
+    })),
+  };
+}
+
+function printVerification(cwd: string, transcript: TranscriptInfo): void {
+  const verification = readVerification(cwd, transcript);
+  if (!verification) {
+    logger.info('Verification did not run for this iteration');
+    return;
+  }
+
+  for (const result of verification.results) {
+    const status = result.success ? chalk.green('PASSED') : chalk.red('FAILED');
+    const details = chalk.dim(`(${result.command}, ${result.durationMs}ms)`);
+    logger.raw(`${status} ${chalk.bold(result.name)} ${details}`);
+    if (result.output) {
+      logger.raw(result.output);
+    }
+    logger.newline();
+  }
+}
+
+function printJson(cwd: string, transcript: TranscriptInfo, iteration?: Iteration): void {
+  const read = (file: string) => readTranscriptFile(cwd, transcript.dir, file);
+  const output = read(TRANSCRIPT_FILES.output);
+  const events = read(TRANSCRIPT_FILES.events);
+  const review = read(TRANSCRIPT_FILES.review);
+
+  logger.raw(
+    JSON.stringify(
+      {
+        ...transcript,
+        iterationRecord: iteration ?? null,
+        prompt: read(TRANSCRIPT_FILES.prompt),
+        stdout: read(TRANSCRIPT_FILES.stdout),
+        stderr: read(TRANSCRIPT_FILES.stderr),
+        events: events
+          ? events.split('\n').filter(Boolean).map((line) => JSON.parse(line))
+          : null,
+        output: output ? JSON.parse(output) : null,
+        plan: read(TRANSCRIPT_FILES.plan),
+        verification: readVerification(cwd, transcript),
+        review: review ? JSON.parse(review) : null,
+      },
+      null,
+      2
+    )
+  );
+}
+
+function printTranscript(cwd: string, transcript: TranscriptInfo, iteration?: Iteration): void {
+  logger.header(`Iteration ${transcript.iteration}: ${transcript.storyId}`);
+  logger.info(`Run: ${chalk.cyan(transcript.runId)}`);
+  logger.info(`Files: ${chalk.dim(transcript.dir)}`);
+  if (iteration) {
+    logger.info(`Status: ${iteration.status}`);
+    if (iteration.error) {
+      logger.info(`Error: ${chalk.red(iteration.error)}`);
+    }
+  }
+
+  const plan = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.plan);
+  if (plan) {
+    logger.newline();
+    logger.info('Plan:');
+    logger.raw(plan);
+  }
+
+  logger.newline();
+  logger.info('Agent output:');
+  logger.divider('-');
+  const stdout = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.stdout);
+  const stderr = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.stderr);
+  logger.raw(stdout ?? chalk.dim('(no output)'));
+  if (stderr) {
+    logger.raw(chalk.yellow(stderr));
+  }
+  logger.divider('-');
+
+  const output = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.output);
+  if (output) {
+    logger.newline();
+    logger.info('Structured output:');
+    logger.raw(output);
+  }
+
+  logger.newline();
+  logger.info('Verification:');
+  printVerification(cwd, transcript);
+
+  const review = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.review);
+  if (review) {
+    logger.newline();
+    logger.info('Review:');
+    logger.raw(review);
+  }
+}
+
+// The planner, the implementer and the reviewer write these in turn
+const FOLLOWED_FILES = [
+  TRANSCRIPT_FILES.planOutput,
+  TRANSCRIPT_FILES.stdout,
+  TRANSCRIPT_FILES.reviewOutput,
+];
+
+async function followIteration(cwd: string, iteration: Iteration): Promise<void> {
+  const dir = iteration.transcriptDir ?? '';
+  const offsets = new Map<string, number>();
+
+  logger.info(`Following ${chalk.cyan(iteration.storyId)} (${chalk.dim(dir)}), Ctrl+C to stop`);
+  logger.newline();
+
+  const printNew = () => {
+    for (const file of FOLLOWED_FILES) {
+      const path = resolve(cwd, dir, file);
+      if (!existsSync(path)) continue;
+      const offset = offsets.get(file) ?? 0;
+      const size = statSync(path).size;
+      if (size <= offset) continue;
+
+      const buffer = Buffer.alloc(size - offset);
+      const fd = openSync(path, 'r');
+      try {
+        readSync(fd, buffer, 0, buffer.length, offset);
+      } finally {
+        closeSync(fd);
+      }
+      offsets.set(file, size);
+      process.stdout.write(buffer.toString());
+    }
+  };
+
+  for (;;) {
+    printNew();
+    const current = findIterationRecord(loadState(cwd), dir);
+    if (!current || current.status !== 'in_progress') {
+      printNew();
+      logger.newline();
+      logger.info(`Iteration finished: ${current?.status ?? 'unknown'}`);
+      return;
+    }
+    await sleep(FOLLOW_POLL_MS);
+  }
+}
+
+export async function logsCommand(selector?: string, options: LogsOptions = {}): Promise<void> {
+  const cwd = process.cwd();
+  const state = loadState(cwd);
+
+  if (options.follow) {
+    const live = state
+      ? listIterations(state).find((i) => i.status === 'in_progress' && i.transcriptDir)
+      : undefined;
+    if (!live) {
+      logger.error('No iteration is in progress');
+      process.exit(1);
+    }
+    await followIteration(cwd, live);
+    return;
+  }
+
+  const transcripts = listTranscripts(cwd);
+  if (transcripts.length === 0) {
+    logger.error('No transcripts found. Run gushter run first.');
+    process.exit(1);
+  }
+
+  const transcript = selectTranscript(transcripts, selector);
+  if (!transcript) {
+    logger.error(`No transcript found for: ${selector}`);
+    process.exit(1);
+  }
+
+  const iteration = findIterationRecord(state, transcript.dir);
+
+  if (options.json) {
+    printJson(cwd, transcript, iteration);
+  } else if (options.verification) {
+    printVerification(cwd, transcript);
+  } else if (options.raw) {
+    const stdout = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.stdout) ?? '';
+    const stderr = readTranscriptFile(cwd, transcript.dir, TRANSCRIPT_FILES.stderr) ?? '';
+    process.stdout.write(stdout + stderr);
+  } else {
+    printTranscript(cwd, transcript, iteration);
+  }
+}
@@ -1,8 +1,9 @@
-import { spawn } from 'node:child_process';
 import { existsSync, readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import chalk from 'chalk';
 import { logger } from '../../utils/logger.js';
+import { loadConfig } from '../../config/loader.js';
+import { AgentBackend, createAgentBackend, echoAgentOutput } from '../../agents/backend.js';
 
 export interface PrdConvertOptions {
   input?: string;
@@ -52,7 +53,8 @@ Generate a \`prd.json\` with this structure:
       ],
       "priority": 1,
       "passes": false,
-      "notes": ""
+      "notes": "",
+      "dependsOn": []
     }
   ]
 }
@@ -66,10 +68,11 @@ Generate a \`prd.json\` with this structure:
    - Backend/API next (priority 2-3)
    - UI components (priority 4-5)
    - Integration/polish last (priority 6+)
-3. **All stories start with**: \`passes: false\` and empty \`notes\`
-4. **Branch naming**: \`gushter/feature-name\` in kebab-case
-5. **Always include**: "Typecheck passes" in acceptance criteria
-6. **UI stories include**: "Verify visually in browser" in acceptance criteria
+3. **Dependencies**: List the IDs of stories that must be done first in \`dependsOn\`. Gushter won't start a story until they pass. Never create cycles
+4. **All stories start with**: \`passes: false\` and empty \`notes\`
+5. **Branch naming**: \`gushter/feature-name\` in kebab-case
+6. **Always include**: "Typecheck passes" in acceptance criteria
+7. **UI stories include**: "Verify visually in browser" in acceptance criteria
 
 ## Acceptance Criteria Quality
 
@@ -103,6 +106,7 @@ export async function prdConvertCommand(options: PrdConvertOptions = {}): Promis
   const cwd = process.cwd();
   const inputPath = resolve(cwd, options.input ?? 'prd.md');
   const outputPath = resolve(cwd, options.output ?? 'prd.json');
+  const backend = createAgentBackend(loadConfig({ cwd }).agent);
 
   // Check if input exists
   if (!existsSync(inputPath)) {
@@ -130,7 +134,7 @@ export async function prdConvertCommand(options: PrdConvertOptions = {}): Promis
   logger.newline();
 
   try {
-    await runClaudeConvert(prdContent, cwd, outputPath);
+    await runAgentConvert(backend, prdContent, cwd, outputPath);
 
     if (existsSync(outputPath)) {
       logger.newline();
@@ -142,7 +146,7 @@ export async function prdConvertCommand(options: PrdConvertOptions = {}): Promis
       logger.raw('  3. Run: gushter run');
     } else {
       logger.error('Conversion completed but output file was not created.');
-      logger.info('Please check Claude output for errors.');
+      logger.info('Please check the agent output for errors.');
       process.exit(1);
     }
   } catch (error) {
@@ -151,9 +155,13 @@ export async function prdConvertCommand(options: PrdConvertOptions = {}): Promis
   }
 }
 
-async function runClaudeConvert(prdContent: string, cwd: string, outputPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const prompt = `${PRD_CONVERT_SKILL}
+async function runAgentConvert(
+  backend: AgentBackend,
+  prdContent: string,
+  cwd: string,
+  outputPath: string
+): Promise<void> {
+  const prompt = `${PRD_CONVERT_SKILL}
 
 ## PRD Content to Convert
 
@@ -167,31 +175,18 @@ Convert the above PRD to prd.json format and save it to: ${outputPath}
 
 Remember:
 - Split any oversized stories
-- Order by dependencies
+- Order by dependencies and list them in dependsOn
 - All stories start with passes: false
 - Include "Typecheck passes" in all acceptance criteria
 - Use kebab-case for branchName`;
 
-    // Use --print and --dangerously-skip-permissions for non-interactive conversion
-    const child = spawn('claude', ['--dangerously-skip-permissions', '--print'], {
-      cwd,
-      stdio: ['pipe', 'inherit', 'inherit'],
-      env: { ...process.env },
-    });
-
-    child.stdin?.write(prompt);
-    child.stdin?.end();
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Claude exited with code ${code}`));
-      }
-    });
-
-    child.on('error', (error) => {
-      reject(new Error(`Failed to spawn claude: ${error.message}`));
-    });
+  const result = await backend.run({
+    prompt,
+    cwd,
+    onOutput: echoAgentOutput,
   });
+
+  if (!result.success) {
+    throw new Error(`Agent '${backend.name}' exited with code ${result.exitCode}`);
+  }
 }
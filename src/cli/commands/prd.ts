@@ -1,8 +1,9 @@
-import { spawn } from 'node:child_process';
 import { existsSync } from 'node:fs';
 import { resolve } from 'node:path';
 import chalk from 'chalk';
 import { logger } from '../../utils/logger.js';
+import { loadConfig } from '../../config/loader.js';
+import { AgentBackend, createAgentBackend } from '../../agents/backend.js';
 
 export interface PrdOptions {
   output?: string;
@@ -117,6 +118,7 @@ Start by asking the user what feature they want to build. Be conversational and
 export async function prdCommand(options: PrdOptions = {}): Promise<void> {
   const cwd = process.cwd();
   const outputPath = resolve(cwd, options.output ?? 'prd.md');
+  const backend = createAgentBackend(loadConfig({ cwd }).agent);
 
   // Check if output already exists
   if (existsSync(outputPath) && !options.force) {
@@ -124,15 +126,15 @@ export async function prdCommand(options: PrdOptions = {}): Promise<void> {
     process.exit(1);
   }
 
-  logger.info('Starting PRD generation with Claude Code...');
+  logger.info(`Starting PRD generation with ${chalk.cyan(backend.name)}...`);
   logger.info(`Output will be saved to: ${chalk.cyan(outputPath)}`);
   logger.newline();
-  logger.info('Claude will ask clarifying questions to understand your feature.');
+  logger.info('The agent will ask clarifying questions to understand your feature.');
   logger.info('Press Ctrl+C to cancel at any time.');
   logger.newline();
 
   try {
-    await runInteractiveClaude(PRD_SKILL_PROMPT, cwd, outputPath);
+    await runInteractiveAgent(backend, PRD_SKILL_PROMPT, cwd, outputPath);
 
     if (existsSync(outputPath)) {
       logger.newline();
@@ -148,33 +150,23 @@ export async function prdCommand(options: PrdOptions = {}): Promise<void> {
   }
 }
 
-async function runInteractiveClaude(systemPrompt: string, cwd: string, outputPath: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const fullSystemPrompt = `${systemPrompt}
+async function runInteractiveAgent(
+  backend: AgentBackend,
+  systemPrompt: string,
+  cwd: string,
+  outputPath: string
+): Promise<void> {
+  const fullSystemPrompt = `${systemPrompt}
 
 IMPORTANT: When the PRD is complete, save it to: ${outputPath}`;
 
-    // Use --system-prompt for instructions, pass initial message as argument
-    // No -p flag = interactive mode
-    const child = spawn('claude', [
-      '--system-prompt', fullSystemPrompt,
-      'Start by asking the user what feature they want to build.'
-    ], {
-      cwd,
-      stdio: 'inherit',
-      env: { ...process.env },
-    });
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Claude exited with code ${code}`));
-      }
-    });
-
-    child.on('error', (error) => {
-      reject(new Error(`Failed to spawn claude: ${error.message}`));
-    });
+  const exitCode = await backend.runInteractive({
+    systemPrompt: fullSystemPrompt,
+    message: 'Start by asking the user what feature they want to build.',
+    cwd,
   });
+
+  if (exitCode !== 0) {
+    throw new Error(`Agent '${backend.name}' exited with code ${exitCode}`);
+  }
 }
@@ -1,8 +1,8 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { resolve, dirname } from 'node:path';
 import chalk from 'chalk';
 import { logger } from '../../utils/logger.js';
-import { GushterStateSchema, GushterState } from '../../types/state.js';
+import { GushterState, listIterations } from '../../types/state.js';
+import { StateStore } from '../../core/state-store.js';
+import { StateJournal, applyJournalEvent } from '../../core/state-journal.js';
 import { GitManager } from '../../core/git-manager.js';
 
 export interface RollbackOptions {
@@ -10,27 +10,35 @@ export interface RollbackOptions {
   force?: boolean;
 }
 
-const STATE_DIR = '.gushter';
-const STATE_FILE = 'state.json';
-
-function loadState(cwd: string): GushterState | null {
-  const statePath = resolve(cwd, STATE_DIR, STATE_FILE);
-  if (!existsSync(statePath)) {
-    return null;
-  }
-
+function loadState(store: StateStore): GushterState | null {
   try {
-    const content = readFileSync(statePath, 'utf-8');
-    return GushterStateSchema.parse(JSON.parse(content));
-  } catch {
-    return null;
+    return store.load();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
   }
 }
 
-function saveState(cwd: string, state: GushterState): void {
-  const statePath = resolve(cwd, STATE_DIR, STATE_FILE);
-  mkdirSync(dirname(statePath), { recursive: true });
-  writeFileSync(statePath, JSON.stringify(state, null, 2));
+function recordRollback(
+  store: StateStore,
+  journal: StateJournal,
+  state: GushterState,
+  storyId?: string
+): void {
+  journal.ensureStarted(state);
+  const event = { type: 'rollback' as const, at: new Date().toISOString(), storyId };
+  journal.append(event);
+  store.save(applyJournalEvent(state, event));
+}
+
+// Rolling back under a running loop would reset the tree beneath its agent
+async function withRunLock(store: StateStore, action: () => Promise<void>): Promise<void> {
+  store.acquireLock();
+  try {
+    await action();
+  } finally {
+    store.releaseLock();
+  }
 }
 
 export async function rollbackCommand(
@@ -38,7 +46,9 @@ export async function rollbackCommand(
   options: RollbackOptions = {}
 ): Promise<void> {
   const cwd = process.cwd();
-  const state = loadState(cwd);
+  const store = new StateStore(cwd);
+  const journal = new StateJournal(cwd);
+  const state = loadState(store);
   const gitManager = new GitManager(cwd);
 
   if (!state) {
@@ -49,7 +59,8 @@ export async function rollbackCommand(
   if (options.all) {
     logger.header('Rolling Back All Iterations');
 
-    const firstIteration = state.iterations[0];
+    const history = listIterations(state);
+    const firstIteration = history[0];
     if (!firstIteration) {
       logger.warn('No iterations to rollback');
       return;
@@ -64,12 +75,10 @@ export async function rollbackCommand(
     }
 
     try {
-      await gitManager.resetToSha(firstIteration.startSha);
-      state.iterations = [];
-      state.currentIteration = 0;
-      state.blockedStories = [];
-      state.lastUpdatedAt = new Date().toISOString();
-      saveState(cwd, state);
+      await withRunLock(store, async () => {
+        await gitManager.resetToSha(firstIteration.startSha);
+        recordRollback(store, journal, state);
+      });
       logger.success('Rolled back all iterations');
     } catch (error) {
       logger.error(`Rollback failed: ${error}`);
@@ -88,7 +97,11 @@ export async function rollbackCommand(
 
   logger.header(`Rolling Back Story: ${storyId}`);
 
-  const iteration = state.iterations.find((i) => i.storyId === storyId);
+  // Go back to before the story's earliest attempt that is still in effect
+  const history = listIterations(state);
+  const iteration = history.find(
+    (i) => i.storyId === storyId && i.status !== 'rolled_back'
+  );
   if (!iteration) {
     logger.error(`No iteration found for story: ${storyId}`);
     process.exit(1);
@@ -101,24 +114,10 @@ export async function rollbackCommand(
   }
 
   try {
-    await gitManager.resetToSha(iteration.startSha);
-
-    // Update state: mark this and all subsequent iterations as rolled_back
-    const iterationIndex = state.iterations.findIndex(
-      (i) => i.storyId === storyId
-    );
-    for (let i = iterationIndex; i < state.iterations.length; i++) {
-      const iter = state.iterations[i];
-      if (iter) {
-        iter.status = 'rolled_back';
-      }
-    }
-
-    // Remove blocked status if it was blocked
-    state.blockedStories = state.blockedStories.filter((s) => s !== storyId);
-    state.lastUpdatedAt = new Date().toISOString();
-
-    saveState(cwd, state);
+    await withRunLock(store, async () => {
+      await gitManager.resetToSha(iteration.startSha);
+      recordRollback(store, journal, state, storyId);
+    });
     logger.success(`Rolled back story ${storyId}`);
   } catch (error) {
     logger.error(`Rollback failed: ${error}`);
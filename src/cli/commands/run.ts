@@ -1,7 +1,20 @@
+import { createInterface } from 'node:readline/promises';
 import chalk from 'chalk';
 import { logger } from '../../utils/logger.js';
 import { loadConfig, mergeConfigWithCli } from '../../config/loader.js';
-import { Orchestrator } from '../../core/orchestrator.js';
+import { ApprovalModeSchema, ApprovalMode } from '../../config/schema.js';
+import {
+  ApprovalDecision,
+  ApprovalRequest,
+  Orchestrator,
+  RecoveryAction,
+} from '../../core/orchestrator.js';
+import { killRunningAgents } from '../../agents/backend.js';
+import { killRunningCommands } from '../../utils/process.js';
+import { Iteration } from '../../types/state.js';
+import { UserStory } from '../../types/prd.js';
+import { formatTotals } from '../../core/usage.js';
+import { attachDashboard } from '../dashboard.js';
 
 export interface RunOptions {
   maxIterations?: number;
@@ -10,16 +23,183 @@ export interface RunOptions {
   story?: string;
   resume?: boolean;
   verbose?: boolean;
+  fixture?: string;
+  recover?: string;
+  parallel?: number;
+  approval?: string;
+  plan?: boolean;
+  review?: boolean;
+}
+
+const RECOVERY_ACTIONS: RecoveryAction[] = ['reset', 'verify'];
+
+type AskQuestion = (query: string) => Promise<string>;
+
+/**
+ * Runs `ask` against a readline prompt. While the prompt is open, readline
+ * takes Ctrl+C away from the signal handlers, so it is passed on to them.
+ * Ctrl+C or a closed stdin interrupts the run and rejects the pending
+ * question; the orchestrator treats that as a stop, not a failed attempt.
+ */
+async function withPrompt<T>(
+  interrupt: () => void,
+  ask: (question: AskQuestion) => Promise<T>
+): Promise<T> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let answered = false;
+  // readline's question() never settles once the prompt closes
+  const closed = new Promise<never>((_resolve, reject) => {
+    rl.once('close', () => {
+      if (!answered) {
+        interrupt();
+      }
+      reject(new Error('The prompt was closed'));
+    });
+  });
+  closed.catch(() => undefined);
+  rl.on('SIGINT', () => {
+    process.emit('SIGINT', 'SIGINT');
+    rl.close();
+  });
+
+  try {
+    return await ask((query) => Promise.race([rl.question(query), closed]));
+  } finally {
+    answered = true;
+    rl.close();
+  }
+}
+
+async function askRecoveryAction(
+  iteration: Iteration,
+  story: UserStory,
+  interrupt: () => void
+): Promise<RecoveryAction> {
+  logger.warn(
+    `${chalk.cyan(story.id)} (${story.title}) was interrupted. Its changes since ${chalk.cyan(iteration.startSha.slice(0, 7))} are still in the working tree.`
+  );
+
+  return withPrompt(interrupt, async (question) => {
+    for (;;) {
+      const answer = (await question('Reset them, or keep them and verify? [r]eset/[v]erify: '))
+        .trim()
+        .toLowerCase();
+      const action = RECOVERY_ACTIONS.find((a) => a === answer || a[0] === answer);
+      if (action) {
+        return action;
+      }
+    }
+  });
+}
+
+async function askApproval(
+  request: ApprovalRequest,
+  interrupt: () => void
+): Promise<ApprovalDecision> {
+  const { story, iteration, cwd, files } = request;
+  logger.newline();
+  logger.info(
+    `${chalk.cyan(story.id)} (${story.title}) passed verification. Files changed since ${chalk.cyan(iteration.startSha.slice(0, 7))}:`
+  );
+  for (const file of files) {
+    logger.raw(`  ${file}`);
+  }
+  if (cwd !== process.cwd()) {
+    logger.info(`The changes are in ${cwd}`);
+  }
+
+  return withPrompt(interrupt, async (question): Promise<ApprovalDecision> => {
+    for (;;) {
+      const answer = (await question('Approve, reject, or edit first? [a]pprove/[r]eject/[e]dit: '))
+        .trim()
+        .toLowerCase();
+      if (answer === 'a' || answer === 'approve') {
+        return { action: 'approve' };
+      }
+      if (answer === 'r' || answer === 'reject') {
+        const feedback = await question('Feedback for the next attempt: ');
+        return { action: 'reject', feedback };
+      }
+      if (answer === 'e' || answer === 'edit') {
+        await question(`Edit the files in ${cwd}, then press Enter to verify them again: `);
+        return { action: 'edit' };
+      }
+    }
+  });
+}
+
+/**
+ * The first SIGINT/SIGTERM stops the run cleanly so it can be resumed; a
+ * second one kills the agents' process trees and exits immediately.
+ */
+function handleSignals(orchestrator: Orchestrator): () => void {
+  let received = 0;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    received++;
+    if (received === 1) {
+      logger.warn(`Received ${signal}, stopping the run. Send it again to force quit.`);
+      orchestrator.interrupt();
+      return;
+    }
+
+    logger.setSink(null);
+    logger.error('Force quitting');
+    killRunningAgents();
+    killRunningCommands();
+    process.exit(130);
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  return () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  };
 }
 
 export async function runCommand(options: RunOptions = {}): Promise<void> {
   const cwd = process.cwd();
+
+  const recover = options.recover as RecoveryAction | undefined;
+  if (recover && !RECOVERY_ACTIONS.includes(recover)) {
+    logger.error(`--recover must be one of: ${RECOVERY_ACTIONS.join(', ')}`);
+    process.exit(1);
+  }
+
+  if (options.parallel !== undefined && !(Number.isInteger(options.parallel) && options.parallel > 0)) {
+    logger.error('--parallel must be a positive number');
+    process.exit(1);
+  }
+
+  const approval = options.approval as ApprovalMode | undefined;
+  if (approval && !ApprovalModeSchema.options.includes(approval)) {
+    logger.error(`--approval must be one of: ${ApprovalModeSchema.options.join(', ')}`);
+    process.exit(1);
+  }
+
   const fileConfig = loadConfig({ cwd });
 
   const config = mergeConfigWithCli(fileConfig, {
     maxIterations: options.maxIterations,
+    agent: options.fixture
+      ? { ...fileConfig.agent, type: 'fixture', fixturePath: options.fixture }
+      : undefined,
+    parallel: options.parallel
+      ? { ...fileConfig.parallel, workers: options.parallel }
+      : undefined,
+    plan: options.plan ? { ...fileConfig.plan, enabled: true } : undefined,
+    review: options.review ? { ...fileConfig.review, enabled: true } : undefined,
+    approval,
   });
 
+  if (config.approval !== 'none' && !options.dryRun && !process.stdin.isTTY) {
+    logger.error(
+      `approval '${config.approval}' needs a terminal to ask in; use --approval none to run without review`
+    );
+    process.exit(1);
+  }
+
   logger.setVerbose(options.verbose ?? false);
 
   logger.header('Gushter - Autonomous AI Agent Loop');
@@ -34,24 +214,56 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
     logger.info(`Target story: ${chalk.cyan(options.story)}`);
   }
 
+  if (options.fixture) {
+    logger.info(`Replaying agent fixture: ${chalk.cyan(options.fixture)}`);
+  }
+
+  if (options.resume) {
+    logger.info('Resuming the saved run');
+  }
+
+  // The dashboard needs a terminal; piped output falls back to plain logs
+  const showDashboard = (options.dashboard ?? true) && Boolean(process.stdout.isTTY);
+
   logger.newline();
 
+  // Prompts stop the run on Ctrl+C; the orchestrator exists by the time they ask
+  const interrupt = () => orchestrator.interrupt();
   const orchestrator = new Orchestrator({
     config,
     cwd,
     dryRun: options.dryRun ?? false,
     targetStory: options.story,
     resume: options.resume ?? false,
-    showDashboard: options.dashboard ?? true,
+    showDashboard,
+    // Without a terminal to ask in, interrupted work is reset unless --recover says otherwise
+    chooseRecovery: recover
+      ? async () => recover
+      : process.stdin.isTTY
+        ? (iteration, story) => askRecoveryAction(iteration, story, interrupt)
+        : undefined,
+    requestApproval: (request) => askApproval(request, interrupt),
   });
+  const detachDashboard = showDashboard ? attachDashboard(orchestrator) : null;
+  const removeSignalHandlers = handleSignals(orchestrator);
 
   try {
     const result = await orchestrator.run();
+    detachDashboard?.();
+    removeSignalHandlers();
 
     logger.newline();
 
     if (result.success) {
       logger.success('All stories completed successfully!');
+    } else if (result.interrupted) {
+      logger.warn('Run interrupted. Continue it with: gushter run --resume');
+    } else if (result.aborted) {
+      logger.warn('Run aborted');
+    } else if (result.budgetExceeded) {
+      logger.warn(
+        `Stopped by budget limit ${result.budgetExceeded.limit}: ${result.budgetExceeded.message}`
+      );
     } else if (result.reachedMaxIterations) {
       logger.warn(
         `Reached max iterations (${config.maxIterations}) without completing all stories`
@@ -67,9 +279,12 @@ export async function runCommand(options: RunOptions = {}): Promise<void> {
       `Completed: ${result.completedStories}/${result.totalStories} stories`
     );
     logger.info(`Iterations used: ${result.iterationsUsed}`);
+    logger.info(`Run usage: ${formatTotals(result.usage)}`);
 
-    process.exit(result.success ? 0 : 1);
+    process.exit(result.success ? 0 : result.interrupted ? 130 : 1);
   } catch (error) {
+    detachDashboard?.();
+    removeSignalHandlers();
     logger.error(`Orchestrator failed: ${error}`);
     process.exit(1);
   }
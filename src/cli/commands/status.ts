@@ -3,16 +3,16 @@ import { resolve } from 'node:path';
 import chalk from 'chalk';
 import { logger } from '../../utils/logger.js';
 import { loadConfig } from '../../config/loader.js';
-import { GushterStateSchema, GushterState, IterationStatus } from '../../types/state.js';
+import { GushterState, IterationStatus } from '../../types/state.js';
+import { StateStore } from '../../core/state-store.js';
 import { PrdSchema, Prd } from '../../types/prd.js';
+import { formatTotals, formatCost, formatDuration } from '../../core/usage.js';
+import { StoryPicker } from '../../core/story-picker.js';
 
 export interface StatusOptions {
   verbose?: boolean;
 }
 
-const STATE_DIR = '.gushter';
-const STATE_FILE = 'state.json';
-
 function getStatusColor(status: IterationStatus): (s: string) => string {
   switch (status) {
     case 'completed':
@@ -25,22 +25,19 @@ function getStatusColor(status: IterationStatus): (s: string) => string {
       return chalk.magenta;
     case 'rolled_back':
       return chalk.gray;
+    case 'interrupted':
+      return chalk.yellow;
     default:
       return chalk.white;
   }
 }
 
-function loadState(cwd: string): GushterState | null {
-  const statePath = resolve(cwd, STATE_DIR, STATE_FILE);
-  if (!existsSync(statePath)) {
-    return null;
-  }
-
+function loadState(store: StateStore): GushterState | null {
   try {
-    const content = readFileSync(statePath, 'utf-8');
-    return GushterStateSchema.parse(JSON.parse(content));
-  } catch {
-    return null;
+    return store.load();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
   }
 }
 
@@ -52,7 +49,8 @@ function loadPrd(prdPath: string): Prd | null {
   try {
     const content = readFileSync(prdPath, 'utf-8');
     return PrdSchema.parse(JSON.parse(content));
-  } catch {
+  } catch (error) {
+    logger.error(`Invalid PRD in ${prdPath}: ${error}`);
     return null;
   }
 }
@@ -60,15 +58,19 @@ function loadPrd(prdPath: string): Prd | null {
 export async function statusCommand(options: StatusOptions = {}): Promise<void> {
   const cwd = process.cwd();
   const config = loadConfig({ cwd });
-  const state = loadState(cwd);
+  const store = new StateStore(cwd);
+  const state = loadState(store);
+  const runLock = store.readLock();
   const prd = loadPrd(resolve(cwd, config.prdPath));
 
   logger.header('Gushter Status');
   logger.newline();
 
   if (!prd) {
-    logger.warn('No prd.json found');
-    logger.info(`Expected at: ${resolve(cwd, config.prdPath)}`);
+    if (!existsSync(resolve(cwd, config.prdPath))) {
+      logger.warn('No prd.json found');
+      logger.info(`Expected at: ${resolve(cwd, config.prdPath)}`);
+    }
     return;
   }
 
@@ -89,6 +91,7 @@ export async function statusCommand(options: StatusOptions = {}): Promise<void>
     logger.info(
       `Iteration: ${state.currentIteration}/${state.maxIterations}`
     );
+    logger.info(`Usage: ${formatTotals(state.usage.run)}`);
     if (state.blockedStories.length > 0) {
       logger.warn(
         `Blocked stories: ${chalk.red(state.blockedStories.join(', '))}`
@@ -98,15 +101,33 @@ export async function statusCommand(options: StatusOptions = {}): Promise<void>
     logger.info('No active run (state file not found)');
   }
 
+  if (runLock) {
+    logger.info(
+      chalk.yellow(
+        `Run in progress by PID ${runLock.pid} on ${runLock.hostname}, started ${runLock.startedAt}`
+      )
+    );
+  }
+
   logger.newline();
   logger.info('User Stories:');
 
+  const picker = new StoryPicker(prd, { blockedStories: state?.blockedStories });
+
   for (const story of prd.userStories.sort((a, b) => a.priority - b.priority)) {
     const statusIcon = story.passes ? chalk.green('✓') : chalk.gray('○');
-    const storyStatus = story.passes ? chalk.green('PASS') : chalk.gray('PENDING');
+    let storyStatus = story.passes ? chalk.green('PASS') : chalk.gray('PENDING');
+    if (picker.isWaiting(story)) {
+      storyStatus = chalk.gray(`WAITING on ${picker.getWaitingOn(story).join(', ')}`);
+    }
+
+    const storyTotals = state?.usage.stories[story.id];
+    const storyUsage = storyTotals
+      ? chalk.dim(` ${formatCost(storyTotals.costUsd)}, ${formatDuration(storyTotals.durationMs)}`)
+      : '';
 
     logger.raw(
-      `  ${statusIcon} [${story.priority}] ${chalk.bold(story.id)}: ${story.title} ${chalk.dim(`(${storyStatus})`)}`
+      `  ${statusIcon} [${story.priority}] ${chalk.bold(story.id)}: ${story.title} ${chalk.dim(`(${storyStatus})`)}${storyUsage}`
     );
 
     if (options.verbose) {
@@ -114,21 +135,53 @@ export async function statusCommand(options: StatusOptions = {}): Promise<void>
       for (const criterion of story.acceptanceCriteria) {
         logger.raw(chalk.dim(`      - ${criterion}`));
       }
+      if (story.dependsOn?.length) {
+        logger.raw(chalk.dim(`      Depends on: ${story.dependsOn.join(', ')}`));
+      }
+      if (story.roles) {
+        logger.raw(chalk.dim(`      Roles: ${story.roles.join(', ')}`));
+      }
     }
   }
 
   if (state && options.verbose) {
     logger.newline();
-    logger.info('Iteration History:');
+    logger.info('Attempt History:');
 
-    for (const iteration of state.iterations) {
-      const color = getStatusColor(iteration.status);
-      logger.raw(
-        `  ${color(iteration.status.toUpperCase().padEnd(12))} ${iteration.storyId} (retries: ${iteration.retryCount})`
-      );
-      if (iteration.error) {
-        logger.raw(chalk.dim(`      Error: ${iteration.error}`));
+    for (const story of prd.userStories) {
+      const attempts = state.stories[story.id]?.attempts ?? [];
+      if (attempts.length === 0) {
+        continue;
       }
+
+      logger.raw(`  ${chalk.bold(story.id)}: ${story.title}`);
+      attempts.forEach((iteration, index) => {
+        const color = getStatusColor(iteration.status);
+        const number = iteration.number !== undefined ? ` iteration ${iteration.number},` : '';
+        logger.raw(
+          `    #${index + 1} ${color(iteration.status.toUpperCase().padEnd(12))}${chalk.dim(`${number} retries: ${iteration.retryCount}, timeouts: ${iteration.timeoutCount}`)}`
+        );
+        const endSha = iteration.endSha ? iteration.endSha.slice(0, 7) : '-';
+        logger.raw(chalk.dim(`        Commits: ${iteration.startSha.slice(0, 7)}..${endSha}`));
+        if (iteration.durationMs !== undefined) {
+          const cost = iteration.costUsd !== undefined ? `, ${formatCost(iteration.costUsd)} est.` : '';
+          logger.raw(chalk.dim(`        Duration: ${formatDuration(iteration.durationMs)}${cost}`));
+        }
+        if (iteration.error) {
+          const reason = iteration.failureReason ? ` [${iteration.failureReason}]` : '';
+          logger.raw(chalk.dim(`        Error${reason}: ${iteration.error}`));
+        }
+        if (iteration.verificationFailures?.length) {
+          const names = iteration.verificationFailures.map((f) => f.name).join(', ');
+          logger.raw(chalk.dim(`        Failed checks: ${names}`));
+        }
+        for (const failure of iteration.reviewFailures ?? []) {
+          logger.raw(chalk.dim(`        Unmet: ${failure.criterion} (${failure.reason})`));
+        }
+        if (iteration.transcriptDir) {
+          logger.raw(chalk.dim(`        Transcript: ${iteration.transcriptDir}`));
+        }
+      });
     }
   }
 
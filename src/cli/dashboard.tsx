@@ -1,17 +1,40 @@
 import { useState, useEffect } from 'react';
-import { render, Box, Text } from 'ink';
+import { render, Box, Text, useInput, useStdin } from 'ink';
 import Spinner from 'ink-spinner';
-import { GushterState, Iteration, IterationStatus } from '../types/state.js';
+import { GushterState, IterationStatus, StoryHistory } from '../types/state.js';
 import { Prd, UserStory } from '../types/prd.js';
+import { Orchestrator } from '../core/orchestrator.js';
+import { hasUnmetDependencies } from '../core/story-picker.js';
+import { logger } from '../utils/logger.js';
 
 interface DashboardProps {
   state: GushterState;
   prd: Prd;
   currentStory: UserStory | null;
   isRunning: boolean;
+  output: string[];
+  logs: string[];
+  paused: boolean;
+  stopping: boolean;
+  controls?: DashboardControls;
 }
 
-function getStatusIcon(status: IterationStatus): string {
+export interface DashboardControls {
+  togglePause: () => void;
+  skip: () => void;
+  unblock: (storyId: string) => void;
+  retryNow: () => void;
+  abort: () => void;
+}
+
+const OUTPUT_PANE_HEIGHT = 12;
+const LOG_PANE_HEIGHT = 6;
+const MAX_BUFFERED_LINES = 2000;
+
+// Waiting stories have unmet dependencies and no iteration to take a status from
+type StoryStatus = IterationStatus | 'waiting';
+
+function getStatusIcon(status: StoryStatus): string {
   switch (status) {
     case 'completed':
       return '✓';
@@ -23,12 +46,16 @@ function getStatusIcon(status: IterationStatus): string {
       return '⊘';
     case 'rolled_back':
       return '↺';
+    case 'interrupted':
+      return '⏸';
+    case 'waiting':
+      return '◌';
     default:
       return '○';
   }
 }
 
-function getStatusColor(status: IterationStatus): string {
+function getStatusColor(status: StoryStatus): string {
   switch (status) {
     case 'completed':
       return 'green';
@@ -40,6 +67,10 @@ function getStatusColor(status: IterationStatus): string {
       return 'magenta';
     case 'rolled_back':
       return 'gray';
+    case 'interrupted':
+      return 'yellow';
+    case 'waiting':
+      return 'gray';
     default:
       return 'white';
   }
@@ -66,16 +97,22 @@ function ProgressBar({
   );
 }
 
+function sortStories(stories: UserStory[]): UserStory[] {
+  return [...stories].sort((a, b) => a.priority - b.priority);
+}
+
 function StoryList({
   stories,
   blockedStories,
-  iterations,
+  history,
+  selectedId,
 }: {
   stories: UserStory[];
   blockedStories: string[];
-  iterations: Iteration[];
+  history: Record<string, StoryHistory>;
+  selectedId?: string;
 }) {
-  const sortedStories = [...stories].sort((a, b) => a.priority - b.priority);
+  const sortedStories = sortStories(stories);
 
   return (
     <Box flexDirection="column" marginTop={1}>
@@ -83,14 +120,16 @@ function StoryList({
         Stories
       </Text>
       {sortedStories.map((story) => {
-        const iteration = iterations.find((i) => i.storyId === story.id);
+        const iteration = history[story.id]?.attempts.at(-1);
         const isBlocked = blockedStories.includes(story.id);
 
-        let status: IterationStatus = 'pending';
+        let status: StoryStatus = 'pending';
         if (story.passes) {
           status = 'completed';
         } else if (isBlocked) {
           status = 'blocked';
+        } else if (hasUnmetDependencies(story, stories)) {
+          status = 'waiting';
         } else if (iteration) {
           status = iteration.status;
         }
@@ -100,6 +139,7 @@ function StoryList({
 
         return (
           <Box key={story.id}>
+            <Text color="cyan">{story.id === selectedId ? '› ' : '  '}</Text>
             <Text color={color}>{icon} </Text>
             <Text color="cyan">[{story.priority}] </Text>
             <Text bold>{story.id}</Text>
@@ -148,10 +188,148 @@ function CurrentIteration({
   );
 }
 
-export function Dashboard({ state, prd, currentStory, isRunning }: DashboardProps) {
+function OutputPane({ lines }: { lines: string[] }) {
+  const { isRawModeSupported } = useStdin();
+  // Lines scrolled up from the bottom; 0 follows new output
+  const [scrollOffset, setScrollOffset] = useState(0);
+  const maxOffset = Math.max(0, lines.length - OUTPUT_PANE_HEIGHT);
+  const offset = Math.min(scrollOffset, maxOffset);
+
+  useInput(
+    (_input, key) => {
+      if (key.pageUp) {
+        setScrollOffset(Math.min(offset + OUTPUT_PANE_HEIGHT, maxOffset));
+      } else if (key.pageDown) {
+        setScrollOffset(Math.max(offset - OUTPUT_PANE_HEIGHT, 0));
+      }
+    },
+    { isActive: isRawModeSupported }
+  );
+
+  const end = lines.length - offset;
+  const visible = lines.slice(Math.max(0, end - OUTPUT_PANE_HEIGHT), end);
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      <Text bold underline>
+        Agent Output
+        {offset > 0 && <Text color="gray"> (scrolled up {offset} lines, PgDn to follow)</Text>}
+      </Text>
+      <Box
+        flexDirection="column"
+        borderStyle="single"
+        borderColor="gray"
+        paddingX={1}
+        height={OUTPUT_PANE_HEIGHT + 2}
+      >
+        {visible.length === 0 ? (
+          <Text color="gray">Waiting for output...</Text>
+        ) : (
+          visible.map((line, index) => (
+            <Text key={end - visible.length + index} wrap="truncate-end">
+              {line}
+            </Text>
+          ))
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+function LogPane({ lines }: { lines: string[] }) {
+  const visible = lines.slice(-LOG_PANE_HEIGHT);
+  if (visible.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box flexDirection="column" marginTop={1}>
+      {visible.map((line, index) => (
+        <Text key={lines.length - visible.length + index} wrap="truncate-end">
+          {line}
+        </Text>
+      ))}
+    </Box>
+  );
+}
+
+function RunStatus({ paused, stopping }: { paused: boolean; stopping: boolean }) {
+  if (stopping) {
+    return (
+      <Box marginTop={1}>
+        <Text color="red" bold>
+          ■ Stopping...
+        </Text>
+      </Box>
+    );
+  }
+  if (paused) {
+    return (
+      <Box marginTop={1}>
+        <Text color="yellow" bold>
+          ⏸ Paused after the current iteration (p to resume)
+        </Text>
+      </Box>
+    );
+  }
+  return null;
+}
+
+function KeyHelp() {
+  return (
+    <Box marginTop={1}>
+      <Text color="gray">
+        p pause · s skip story · u unblock selected · r retry now · q quit · ↑↓ select · PgUp/PgDn
+        scroll
+      </Text>
+    </Box>
+  );
+}
+
+export function Dashboard({
+  state,
+  prd,
+  currentStory,
+  isRunning,
+  output,
+  logs,
+  paused,
+  stopping,
+  controls,
+}: DashboardProps) {
   const completedCount = prd.userStories.filter((s) => s.passes).length;
   const totalCount = prd.userStories.length;
 
+  const { isRawModeSupported } = useStdin();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const sortedStories = sortStories(prd.userStories);
+  const selectedStory = sortedStories[Math.min(selectedIndex, sortedStories.length - 1)];
+
+  useInput(
+    (input, key) => {
+      if (!controls) return;
+      if (key.upArrow) {
+        setSelectedIndex(Math.max(0, selectedIndex - 1));
+      } else if (key.downArrow) {
+        setSelectedIndex(Math.min(sortedStories.length - 1, selectedIndex + 1));
+      } else if (input === 'p') {
+        controls.togglePause();
+      } else if (input === 's') {
+        controls.skip();
+      } else if (input === 'u' && selectedStory) {
+        controls.unblock(selectedStory.id);
+      } else if (input === 'r') {
+        controls.retryNow();
+      } else if (input === 'q') {
+        controls.abort();
+      } else if (key.ctrl && input === 'c') {
+        // Raw mode swallows Ctrl+C, so hand it to the run's signal handling
+        process.kill(process.pid, 'SIGINT');
+      }
+    },
+    { isActive: isRawModeSupported && isRunning }
+  );
+
   return (
     <Box flexDirection="column" padding={1}>
       <Box borderStyle="round" borderColor="blue" paddingX={2} paddingY={1}>
@@ -185,6 +363,8 @@ export function Dashboard({ state, prd, currentStory, isRunning }: DashboardProp
         </Box>
       )}
 
+      <RunStatus paused={paused} stopping={stopping} />
+
       <CurrentIteration
         story={currentStory}
         isRunning={isRunning}
@@ -193,8 +373,15 @@ export function Dashboard({ state, prd, currentStory, isRunning }: DashboardProp
       <StoryList
         stories={prd.userStories}
         blockedStories={state.blockedStories}
-        iterations={state.iterations}
+        history={state.stories}
+        selectedId={controls ? selectedStory?.id : undefined}
       />
+
+      <OutputPane lines={output} />
+
+      <LogPane lines={logs} />
+
+      {controls && isRunning && <KeyHelp />}
     </Box>
   );
 }
@@ -206,28 +393,129 @@ export interface DashboardInstance {
 
 export function createDashboard(initialProps: DashboardProps): DashboardInstance {
   let currentProps = { ...initialProps };
+  let setAppProps: ((props: DashboardProps) => void) | null = null;
 
   const App = () => {
     const [props, setProps] = useState(currentProps);
 
     useEffect(() => {
-      const interval = setInterval(() => {
-        if (currentProps !== props) {
-          setProps({ ...currentProps });
-        }
-      }, 100);
-      return () => clearInterval(interval);
-    }, [props]);
+      setAppProps = setProps;
+      return () => {
+        setAppProps = null;
+      };
+    }, []);
 
     return <Dashboard {...props} />;
   };
 
-  const { unmount } = render(<App />);
+  // Ctrl+C is forwarded to the run's SIGINT handling instead of exiting Ink
+  const { unmount } = render(<App />, { exitOnCtrlC: false });
 
   return {
     update: (newProps: Partial<DashboardProps>) => {
       currentProps = { ...currentProps, ...newProps };
+      setAppProps?.(currentProps);
     },
     unmount,
   };
 }
+
+/** Appends a chunk of streamed text to a line buffer, continuing its last line. */
+export function appendOutputLines(lines: string[], chunk: string, maxLines: number): string[] {
+  const [first = '', ...rest] = chunk.replace(/\r\n?/g, '\n').split('\n');
+  const next = lines.length > 0 ? [...lines] : [''];
+  next[next.length - 1] += first;
+  next.push(...rest);
+  return next.length > maxLines ? next.slice(next.length - maxLines) : next;
+}
+
+/**
+ * Renders the dashboard for an orchestrator run. It mounts on `run:start`,
+ * follows lifecycle events and unmounts on `run:end`; until then log
+ * messages are shown in the dashboard instead of being printed.
+ */
+export function attachDashboard(orchestrator: Orchestrator): () => void {
+  let dashboard: DashboardInstance | null = null;
+  let output: string[] = [];
+  let logs: string[] = [];
+  let currentStory: UserStory | null = null;
+
+  const refresh = (props: Partial<DashboardProps> = {}) => {
+    dashboard?.update({
+      state: orchestrator.getState(),
+      prd: orchestrator.getPrd(),
+      ...props,
+    });
+  };
+
+  const detach = () => {
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    suspend();
+  };
+
+  const mount = () => {
+    logger.setSink((line) => {
+      logs = [...logs, ...line.split('\n')].slice(-LOG_PANE_HEIGHT);
+      dashboard?.update({ logs });
+    });
+    dashboard = createDashboard({
+      state: orchestrator.getState(),
+      prd: orchestrator.getPrd(),
+      currentStory,
+      isRunning: true,
+      output,
+      logs,
+      // A remount after an approval prompt keeps what was asked for before it
+      paused: orchestrator.isPaused(),
+      stopping: orchestrator.isStopping(),
+      controls: {
+        togglePause: () => orchestrator.togglePause(),
+        skip: () => orchestrator.skipCurrentStory(),
+        unblock: (storyId) => orchestrator.unblockStory(storyId),
+        retryNow: () => orchestrator.retryNow(),
+        abort: () => orchestrator.abort(),
+      },
+    });
+  };
+
+  // A review prompt needs the terminal, so the dashboard steps aside until it is answered
+  const suspend = () => {
+    logger.setSink(null);
+    dashboard?.unmount();
+    dashboard = null;
+  };
+
+  const { events } = orchestrator;
+  const unsubscribers = [
+    events.on('run:start', mount),
+    events.on('approval:request', suspend),
+    events.on('approval:complete', mount),
+    events.on('iteration:start', ({ story }) => {
+      output = [];
+      currentStory = story;
+      refresh({ currentStory, output });
+    }),
+    events.on('agent:output', ({ chunk }) => {
+      output = appendOutputLines(output, chunk, MAX_BUFFERED_LINES);
+      dashboard?.update({ output });
+    }),
+    events.on('verification:command', () => refresh()),
+    events.on('iteration:complete', () => refresh()),
+    events.on('iteration:failed', () => refresh()),
+    events.on('story:blocked', () => refresh()),
+    events.on('story:skipped', () => refresh()),
+    events.on('story:unblocked', () => refresh()),
+    events.on('iteration:aborted', () => refresh()),
+    events.on('run:paused', () => refresh({ paused: true })),
+    events.on('run:resumed', () => refresh({ paused: false })),
+    events.on('iteration:interrupted', () => refresh()),
+    events.on('run:aborting', () => refresh({ stopping: true })),
+    events.on('run:interrupting', () => refresh({ stopping: true })),
+    events.on('run:end', () => {
+      refresh({ currentStory: null, isRunning: false });
+      detach();
+    }),
+  ];
+
+  return detach;
+}
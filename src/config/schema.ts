@@ -10,25 +10,125 @@ export const RetryConfigSchema = z.object({
   initialDelayMs: z.number().optional().default(2000),
   backoffMultiplier: z.number().optional().default(2),
   maxDelayMs: z.number().optional().default(60000),
+  timeoutDelayMs: z.number().optional().default(5000),
 });
 
+export const BudgetConfigSchema = z.object({
+  maxCostUsd: z.number().positive().optional(),
+  maxDurationMinutes: z.number().positive().optional(),
+  deadline: z.string().datetime({ offset: true }).optional(),
+});
+
+export const GitConfigSchema = z.object({
+  autoCommit: z.boolean().optional().default(true),
+  commitMessage: z.string().optional().default('feat: {{story.id}} - {{story.title}}'),
+  trailers: z.boolean().optional().default(true),
+});
+
+export const ParallelConfigSchema = z.object({
+  workers: z.number().int().positive().optional().default(1),
+  // Run in each new worktree before its agent starts, e.g. to install dependencies
+  setupCommands: z.array(z.string()).optional().default([]),
+  // Each setup command is killed after this long
+  setupTimeoutMs: z.number().positive().optional().default(600000),
+});
+
+// When to stop for a human to review a verified story before it is committed
+export const ApprovalModeSchema = z.enum(['none', 'per-story', 'on-failure']);
+
+// An agent run before the implementer that writes a plan for it to follow
+export const PlanConfigSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  promptPath: z.string().optional(),
+  model: z.string().optional(),
+});
+
+// A second agent run that checks a verified story against its acceptance criteria
+export const ReviewConfigSchema = z.object({
+  enabled: z.boolean().optional().default(false),
+  promptPath: z.string().optional(),
+  model: z.string().optional(),
+  // Longer diffs are cut to this many lines in the review prompt
+  maxDiffLines: z.number().int().positive().optional().default(500),
+});
+
+export const ModelPriceSchema = z.object({
+  inputPerMTok: z.number(),
+  outputPerMTok: z.number(),
+  cacheReadPerMTok: z.number().optional(),
+  cacheWritePerMTok: z.number().optional(),
+});
+
+export const AgentTypeSchema = z.enum(['claude', 'amp', 'codex', 'command', 'fixture']);
+
+export const AgentOutputFormatSchema = z.enum(['text', 'stream-json']);
+
+export const AgentConfigSchema = z
+  .object({
+    type: AgentTypeSchema.optional().default('claude'),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional().default([]),
+    env: z.record(z.string()).optional().default({}),
+    timeoutMs: z.number().positive().optional(),
+    idleTimeoutMs: z.number().positive().optional(),
+    outputFormat: AgentOutputFormatSchema.optional().default('text'),
+    fixturePath: z.string().optional(),
+    // The implementer's model; the planner and reviewer have their own
+    model: z.string().optional(),
+  })
+  .refine((agent) => agent.type !== 'command' || Boolean(agent.command), {
+    message: "agent.command is required when agent.type is 'command'",
+    path: ['command'],
+  })
+  .refine((agent) => agent.type !== 'fixture' || Boolean(agent.fixturePath), {
+    message: "agent.fixturePath is required when agent.type is 'fixture'",
+    path: ['fixturePath'],
+  })
+  .refine((agent) => agent.outputFormat !== 'stream-json' || agent.type === 'claude', {
+    message: "agent.outputFormat 'stream-json' is only supported by the claude agent",
+    path: ['outputFormat'],
+  });
+
 export const GushterConfigSchema = z.object({
   maxIterations: z.number().optional().default(10),
   maxRetriesPerStory: z.number().optional().default(3),
+  maxTimeoutsPerStory: z.number().optional().default(2),
   retry: RetryConfigSchema.optional().default({}),
+  agent: AgentConfigSchema.optional().default({}),
   verification: z
     .object({
       commands: z.array(VerificationCommandSchema).optional().default([]),
+      feedbackMaxLines: z.number().optional().default(50),
+      // Each command is killed after this long
+      timeoutMs: z.number().positive().optional().default(300000),
     })
     .optional()
     .default({}),
+  git: GitConfigSchema.optional().default({}),
+  parallel: ParallelConfigSchema.optional().default({}),
+  plan: PlanConfigSchema.optional().default({}),
+  review: ReviewConfigSchema.optional().default({}),
+  approval: ApprovalModeSchema.optional().default('none'),
+  budget: BudgetConfigSchema.optional().default({}),
+  pricing: z.record(ModelPriceSchema).optional().default({}),
   prdPath: z.string().optional().default('prd.json'),
   progressPath: z.string().optional().default('progress.txt'),
   claudeMdPath: z.string().optional().default('CLAUDE.md'),
+  promptTemplatePath: z.string().optional(),
 });
 
 export type VerificationCommand = z.infer<typeof VerificationCommandSchema>;
 export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+export type GitConfig = z.infer<typeof GitConfigSchema>;
+export type ParallelConfig = z.infer<typeof ParallelConfigSchema>;
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+export type PlanConfig = z.infer<typeof PlanConfigSchema>;
+export type ReviewConfig = z.infer<typeof ReviewConfigSchema>;
+export type ApprovalMode = z.infer<typeof ApprovalModeSchema>;
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type AgentType = z.infer<typeof AgentTypeSchema>;
+export type AgentOutputFormat = z.infer<typeof AgentOutputFormatSchema>;
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
 export type GushterConfig = z.infer<typeof GushterConfigSchema>;
 
 export const DEFAULT_CONFIG: GushterConfig = GushterConfigSchema.parse({});
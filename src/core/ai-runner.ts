@@ -1,103 +1,82 @@
-import { spawn } from 'node:child_process';
-import { readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { GushterConfig } from '../config/schema.js';
+import {
+  AgentBackend,
+  AgentRequest,
+  AgentRunResult,
+  createAgentBackend,
+  echoAgentOutput,
+} from '../agents/backend.js';
 import { logger } from '../utils/logger.js';
 
 export interface AiRunnerOptions {
   cwd: string;
-  claudeMdPath: string;
+  backend: AgentBackend;
   dryRun?: boolean;
+  // Set to false when something else, like the dashboard, displays the output
+  echoOutput?: boolean;
 }
 
-export interface AiRunResult {
-  output: string;
-  exitCode: number;
-  success: boolean;
-}
+export type AiRunResult = AgentRunResult;
+
+export type AiRunOptions = Pick<
+  AgentRequest,
+  'storyId' | 'role' | 'model' | 'onOutput' | 'onEvent' | 'signal'
+> & {
+  // Run the agent somewhere other than the project root, e.g. in a worktree
+  cwd?: string;
+};
 
 export class AiRunner {
   private cwd: string;
-  private claudeMdPath: string;
+  private backend: AgentBackend;
   private dryRun: boolean;
+  private echoOutput: boolean;
 
   constructor(options: AiRunnerOptions) {
     this.cwd = options.cwd;
-    this.claudeMdPath = options.claudeMdPath;
+    this.backend = options.backend;
     this.dryRun = options.dryRun ?? false;
+    this.echoOutput = options.echoOutput ?? true;
   }
 
-  async run(): Promise<AiRunResult> {
+  async run(prompt: string, options: AiRunOptions = {}): Promise<AiRunResult> {
     if (this.dryRun) {
-      return this.simulateRun();
-    }
-
-    const absolutePromptPath = resolve(this.cwd, this.claudeMdPath);
-
-    let promptContent: string;
-    try {
-      promptContent = readFileSync(absolutePromptPath, 'utf-8');
-    } catch {
-      throw new Error(`Failed to read prompt file: ${absolutePromptPath}`);
+      const result = this.simulateRun(prompt);
+      options.onOutput?.(result.output, 'stdout');
+      return result;
     }
 
-    return this.runClaude(promptContent);
+    return this.runAgent(prompt, options);
   }
 
-  private async runClaude(prompt: string): Promise<AiRunResult> {
-    logger.debug('Starting Claude Code...');
-
-    return new Promise((resolve) => {
-      const child = spawn('claude', ['--dangerously-skip-permissions', '--print'], {
-        cwd: this.cwd,
-        stdio: ['pipe', 'pipe', 'pipe'],
-        env: { ...process.env },
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      child.stdout?.on('data', (data: Buffer) => {
-        const chunk = data.toString();
-        stdout += chunk;
-        process.stdout.write(chunk);
-      });
-
-      child.stderr?.on('data', (data: Buffer) => {
-        const chunk = data.toString();
-        stderr += chunk;
-        process.stderr.write(chunk);
-      });
-
-      child.stdin?.write(prompt);
-      child.stdin?.end();
-
-      child.on('close', (code) => {
-        const exitCode = code ?? 1;
-        resolve({
-          output: stdout + stderr,
-          exitCode,
-          success: exitCode === 0,
-        });
-      });
-
-      child.on('error', (error) => {
-        resolve({
-          output: `Failed to spawn claude: ${error.message}`,
-          exitCode: 1,
-          success: false,
-        });
-      });
+  private async runAgent(prompt: string, options: AiRunOptions): Promise<AiRunResult> {
+    logger.debug(`Starting agent: ${this.backend.name}`);
+
+    return this.backend.run({
+      prompt,
+      cwd: options.cwd ?? this.cwd,
+      storyId: options.storyId,
+      role: options.role,
+      model: options.model,
+      onOutput: (chunk, stream) => {
+        if (this.echoOutput) {
+          echoAgentOutput(chunk, stream);
+        }
+        options.onOutput?.(chunk, stream);
+      },
+      onEvent: options.onEvent,
+      signal: options.signal,
     });
   }
 
-  private simulateRun(): AiRunResult {
-    logger.info('[DRY RUN] Would execute Claude Code here');
+  private simulateRun(prompt: string): AiRunResult {
+    logger.info(`[DRY RUN] Would execute agent '${this.backend.name}' here`);
 
     const simulatedOutput = `
 [DRY RUN] Simulated AI execution
-- Would read prompt from ${this.claudeMdPath}
-- Would spawn claude with --dangerously-skip-permissions --print
+- Would send a ${prompt.length}-character prompt
+- Would run the '${this.backend.name}' agent backend
 - No actual changes made
 
 \`\`\`json:gushter-output
@@ -120,10 +99,19 @@ export class AiRunner {
   }
 }
 
-export function createAiRunner(config: GushterConfig, cwd: string, dryRun: boolean = false): AiRunner {
+export function createAiRunner(
+  config: GushterConfig,
+  cwd: string,
+  dryRun: boolean = false,
+  echoOutput: boolean = true
+): AiRunner {
+  const { agent } = config;
+  // Agents may run in worktrees, which lack an untracked fixture file
+  const fixturePath = agent.fixturePath && resolve(cwd, agent.fixturePath);
   return new AiRunner({
     cwd,
-    claudeMdPath: config.claudeMdPath,
+    backend: createAgentBackend({ ...agent, fixturePath }),
     dryRun,
+    echoOutput,
   });
 }
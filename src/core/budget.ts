@@ -0,0 +1,47 @@
+import { BudgetConfig } from '../config/schema.js';
+import { UsageTotals } from '../types/state.js';
+import { formatCost } from './usage.js';
+
+export type BudgetLimit = 'maxCostUsd' | 'maxDurationMinutes' | 'deadline';
+
+export interface BudgetCheck {
+  limit: BudgetLimit;
+  message: string;
+}
+
+/**
+ * Returns the first budget limit the run has reached, or null if another
+ * iteration may start. Duration is wall-clock time since the run started.
+ */
+export function checkBudget(
+  budget: BudgetConfig,
+  usage: UsageTotals,
+  runStartedAt: string,
+  now: Date = new Date()
+): BudgetCheck | null {
+  if (budget.maxCostUsd !== undefined && usage.costUsd >= budget.maxCostUsd) {
+    return {
+      limit: 'maxCostUsd',
+      message: `Cost budget reached: ${formatCost(usage.costUsd)} of ${formatCost(budget.maxCostUsd)}`,
+    };
+  }
+
+  if (budget.maxDurationMinutes !== undefined) {
+    const elapsedMinutes = (now.getTime() - new Date(runStartedAt).getTime()) / 60000;
+    if (elapsedMinutes >= budget.maxDurationMinutes) {
+      return {
+        limit: 'maxDurationMinutes',
+        message: `Duration budget reached: ${Math.floor(elapsedMinutes)} of ${budget.maxDurationMinutes} minutes`,
+      };
+    }
+  }
+
+  if (budget.deadline !== undefined && now.getTime() >= new Date(budget.deadline).getTime()) {
+    return {
+      limit: 'deadline',
+      message: `Deadline reached: ${budget.deadline}`,
+    };
+  }
+
+  return null;
+}
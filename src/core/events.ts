@@ -0,0 +1,124 @@
+import { AgentRunResult, AgentStream } from '../agents/backend.js';
+import { AgentEvent } from '../agents/stream-json.js';
+import { VerificationCommand } from '../config/schema.js';
+import { StructuredOutput } from '../types/output.js';
+import { UserStory } from '../types/prd.js';
+import { FailureReason, Iteration } from '../types/state.js';
+import { PipelineResult, VerificationResult } from '../verification/pipeline.js';
+import { logger } from '../utils/logger.js';
+import { BudgetCheck } from './budget.js';
+import type { ApprovalDecision, OrchestratorResult } from './orchestrator.js';
+import type { ReviewResult } from './reviewer.js';
+
+/** Lifecycle events emitted by the orchestrator, keyed by name with their payloads. */
+export interface OrchestratorEvents {
+  'run:start': {
+    runId: string;
+    branchName: string;
+    totalStories: number;
+    completedStories: number;
+    maxIterations: number;
+  };
+  'iteration:start': {
+    iteration: Iteration;
+    story: UserStory;
+    number: number;
+    maxIterations: number;
+  };
+  'agent:output': { storyId: string; chunk: string; stream: AgentStream };
+  'agent:event': { storyId: string; event: AgentEvent };
+  'agent:complete': {
+    storyId: string;
+    result: AgentRunResult;
+    structured: StructuredOutput | null;
+  };
+  'verification:start': { storyId: string; commands: VerificationCommand[] };
+  'verification:command': { storyId: string; result: VerificationResult };
+  'verification:complete': { storyId: string; result: PipelineResult };
+  'plan:start': { storyId: string };
+  'plan:complete': { storyId: string; plan: string | null };
+  'review:start': { storyId: string; criteria: string[] };
+  'review:complete': { storyId: string; result: ReviewResult };
+  'approval:request': { story: UserStory; files: string[] };
+  'approval:complete': { storyId: string; decision: ApprovalDecision };
+  'story:commit': { storyId: string; sha: string; message: string };
+  'iteration:complete': { iteration: Iteration; story: UserStory };
+  'iteration:failed': {
+    iteration: Iteration;
+    reason: FailureReason;
+    error: string;
+    retryDelayMs?: number;
+  };
+  'iteration:aborted': { iteration: Iteration; story: UserStory };
+  'iteration:interrupted': { iteration: Iteration; story: UserStory };
+  'story:complete': { story: UserStory };
+  'story:blocked': { storyId: string; iteration: Iteration };
+  'story:skipped': { storyId: string };
+  'story:unblocked': { storyId: string };
+  'run:paused': Record<string, never>;
+  'run:resumed': Record<string, never>;
+  'run:aborting': Record<string, never>;
+  'run:interrupting': Record<string, never>;
+  'budget:exceeded': BudgetCheck;
+  'run:end': { result: OrchestratorResult };
+}
+
+export type OrchestratorEventName = keyof OrchestratorEvents;
+
+export type OrchestratorEventListener<K extends OrchestratorEventName> = (
+  payload: OrchestratorEvents[K]
+) => void;
+
+/**
+ * Typed publish/subscribe for orchestrator lifecycle events. Listeners run
+ * synchronously in subscription order; one that throws is logged and skipped
+ * so subscribers can never break a run.
+ */
+export class OrchestratorEventBus {
+  private listeners = new Map<OrchestratorEventName, Set<(payload: never) => void>>();
+
+  /** Subscribes to an event and returns a function that unsubscribes. */
+  on<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends OrchestratorEventName>(
+    event: K,
+    listener: OrchestratorEventListener<K>
+  ): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends OrchestratorEventName>(event: K, listener: OrchestratorEventListener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<K extends OrchestratorEventName>(event: K, payload: OrchestratorEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) {
+      return;
+    }
+
+    for (const listener of [...set] as OrchestratorEventListener<K>[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        logger.warn(`Listener for ${event} failed: ${error}`);
+      }
+    }
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
@@ -1,4 +1,14 @@
 import { execSync, ExecSyncOptions } from 'node:child_process';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  rmdirSync,
+} from 'node:fs';
+import { dirname, resolve } from 'node:path';
 import { logger } from '../utils/logger.js';
 
 export interface GitStatus {
@@ -8,6 +18,10 @@ export interface GitStatus {
   hasUntracked: boolean;
 }
 
+// Gushter's own state, transcripts and branch marker never belong in project commits
+const GUSHTER_PATHS = ['.gushter', '.last-branch'];
+const EXCLUDE_PATHSPECS = GUSHTER_PATHS.map((path) => `':(exclude)${path}'`).join(' ');
+
 export class GitManager {
   private cwd: string;
 
@@ -85,16 +99,136 @@ export class GitManager {
     this.exec(`git reset --hard ${sha}`);
   }
 
+  /**
+   * Deletes the untracked files that are not in `tree`, a `snapshotTree`
+   * taken earlier, so files created since then go and older ones stay.
+   * Ignored files and Gushter's own are left alone. Returns the deleted paths.
+   */
+  removeUntrackedSince(tree: string): string[] {
+    const existing = new Set(this.exec(`git ls-tree -r -z --name-only ${tree}`).split('\0'));
+    const created = this.exec(
+      `git ls-files -z --others --exclude-standard -- . ${EXCLUDE_PATHSPECS}`
+    )
+      .split('\0')
+      .filter((path) => path && !existing.has(path));
+
+    for (const path of created) {
+      rmSync(resolve(this.cwd, path), { force: true });
+      this.removeEmptyParents(path);
+    }
+    return created;
+  }
+
+  // Git does not track directories, so ones a deleted file leaves empty go too
+  private removeEmptyParents(path: string): void {
+    for (let dir = dirname(path); dir !== '.'; dir = dirname(dir)) {
+      const absolutePath = resolve(this.cwd, dir);
+      if (!existsSync(absolutePath) || readdirSync(absolutePath).length > 0) {
+        return;
+      }
+      rmdirSync(absolutePath);
+    }
+  }
+
   stageAll(): void {
     this.exec('git add -A');
+    // An exclude pathspec would fail when a path is gitignored
+    this.exec(`git reset -q -- ${GUSHTER_PATHS.join(' ')}`);
+  }
+
+  hasUncommittedChanges(): boolean {
+    return this.exec(`git status --porcelain -- . ${EXCLUDE_PATHSPECS}`).length > 0;
   }
 
-  commit(message: string): string {
+  commit(message: string, trailers: Record<string, string> = {}): string {
     this.stageAll();
-    this.exec(`git commit -m "${message.replace(/"/g, '\\"')}"`);
+    const trailerLines = Object.entries(trailers).map(([key, value]) => `${key}: ${value}`);
+    const fullMessage =
+      trailerLines.length > 0 ? `${message}\n\n${trailerLines.join('\n')}` : message;
+    // Read the message from stdin so it needs no shell escaping
+    this.exec('git commit -F -', { input: fullMessage });
     return this.getCurrentSha();
   }
 
+  /**
+   * Commits only `paths`, leaving anything else staged as it is. Missing and
+   * ignored paths are skipped. Returns false when there was nothing to commit.
+   */
+  commitPaths(paths: string[], message: string): boolean {
+    const pathspec = paths
+      .filter((path) => existsSync(resolve(this.cwd, path)) && !this.isIgnored(path))
+      .map((path) => `"${path}"`)
+      .join(' ');
+    if (!pathspec) {
+      return false;
+    }
+
+    this.exec(`git add -- ${pathspec}`);
+    if (!this.exec(`git diff --cached --name-only -- ${pathspec}`)) {
+      return false;
+    }
+    this.exec(`git commit -q -F - -- ${pathspec}`, { input: message });
+    return true;
+  }
+
+  // Tracked files are never ignored, whatever the ignore rules say
+  private isIgnored(path: string): boolean {
+    try {
+      this.exec(`git check-ignore -q "${path}"`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Creates a worktree at `path` on `branch`, resetting the branch to `base`. */
+  addWorktree(path: string, branch: string, base: string = 'HEAD'): void {
+    logger.debug(`Adding worktree ${path} on ${branch}`);
+    this.exec(`git worktree add -f -B ${branch} "${path}" ${base}`);
+  }
+
+  /** Removes a worktree and its branch; either may already be gone. */
+  removeWorktree(path: string, branch?: string): void {
+    logger.debug(`Removing worktree ${path}`);
+    try {
+      this.exec(`git worktree remove --force "${path}"`);
+    } catch {
+      this.exec('git worktree prune');
+    }
+    if (branch && this.branchExists(branch)) {
+      this.exec(`git branch -D ${branch}`);
+    }
+  }
+
+  /**
+   * Applies everything `branch` changed to the working tree and index without
+   * committing. On a conflict the tree is reset and false is returned.
+   */
+  squashMerge(branch: string): boolean {
+    try {
+      this.exec(`git merge --squash ${branch}`);
+      return true;
+    } catch (error) {
+      logger.debug(`Squash merge of ${branch} failed: ${error}`);
+      this.exec('git reset -q --hard HEAD');
+      return false;
+    }
+  }
+
+  /** Sets a merge driver for a path pattern in the repository's local attributes. */
+  setMergeDriver(pattern: string, driver: string): void {
+    const attributesPath = resolve(this.cwd, this.exec('git rev-parse --git-path info/attributes'));
+    const line = `${pattern} merge=${driver}`;
+    const existing = existsSync(attributesPath) ? readFileSync(attributesPath, 'utf-8') : '';
+    if (existing.split('\n').includes(line)) {
+      return;
+    }
+
+    mkdirSync(dirname(attributesPath), { recursive: true });
+    const separator = existing && !existing.endsWith('\n') ? '\n' : '';
+    appendFileSync(attributesPath, `${separator}${line}\n`);
+  }
+
   hasCommitsSince(sha: string): boolean {
     const currentSha = this.getCurrentSha();
     return currentSha !== sha;
@@ -107,9 +241,58 @@ export class GitManager {
     return output.split('\n').filter(Boolean);
   }
 
+  /** Files changed since `sha`, committed or not, including new untracked files. */
   getFilesChangedSince(sha: string): string[] {
-    const output = this.exec(`git diff --name-only ${sha} HEAD`);
-    return output.split('\n').filter(Boolean);
+    const changed = this.exec(`git diff --name-only ${sha} -- . ${EXCLUDE_PATHSPECS}`);
+    const untracked = this.exec(
+      `git ls-files --others --exclude-standard -- . ${EXCLUDE_PATHSPECS}`
+    );
+    const files = [...changed.split('\n'), ...untracked.split('\n')].filter(Boolean);
+    return [...new Set(files)].sort();
+  }
+
+  /** The diff from `sha` to the working tree, including new untracked files. */
+  getDiffSince(sha: string): string {
+    return this.withScratchIndex((options) => {
+      this.exec(`git read-tree ${sha}`, options);
+      this.exec('git add -A -- .', options);
+      return this.exec(`git diff --cached ${sha} -- . ${EXCLUDE_PATHSPECS}`, options);
+    });
+  }
+
+  /**
+   * Records the working tree, including new untracked files but not
+   * Gushter's own, as a tree object and returns its SHA. Equal SHAs mean
+   * nothing changed in between.
+   */
+  snapshotTree(): string {
+    return this.withScratchIndex((options) => {
+      this.exec('git read-tree HEAD', options);
+      this.exec('git add -A -- .', options);
+      this.exec(`git rm -rq --cached --ignore-unmatch -- ${GUSHTER_PATHS.join(' ')}`, options);
+      return this.exec('git write-tree', options);
+    });
+  }
+
+  /** Files that differ between two trees from `snapshotTree`. */
+  getFilesChangedBetween(fromTree: string, toTree: string): string[] {
+    return this.exec(`git diff --name-only ${fromTree} ${toTree}`).split('\n').filter(Boolean);
+  }
+
+  // Staging into a throwaway index picks up new files without touching the real one
+  private withScratchIndex<T>(run: (options: ExecSyncOptions) => T): T {
+    const indexPath = resolve(
+      this.cwd,
+      this.exec(`git rev-parse --git-path gushter-scratch-${process.pid}.index`)
+    );
+    try {
+      return run({
+        env: { ...process.env, GIT_INDEX_FILE: indexPath },
+        maxBuffer: 64 * 1024 * 1024,
+      });
+    } finally {
+      rmSync(indexPath, { force: true });
+    }
   }
 
   isClean(): boolean {
@@ -4,3 +4,13 @@ export * from './story-picker.js';
 export * from './git-manager.js';
 export * from './ai-runner.js';
 export * from './output-parser.js';
+export * from './prompt-renderer.js';
+export * from './usage.js';
+export * from './budget.js';
+export * from './transcript.js';
+export * from './events.js';
+export * from './state-migrations.js';
+export * from './state-store.js';
+export * from './state-journal.js';
+export * from './reviewer.js';
+export * from './planner.js';
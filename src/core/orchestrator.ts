@@ -2,15 +2,54 @@ import { readFileSync, writeFileSync, existsSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { GushterConfig } from '../config/schema.js';
 import { Prd, PrdSchema, UserStory } from '../types/prd.js';
-import { StateMachine } from './state-machine.js';
+import {
+  AgentRole,
+  AgentStats,
+  GushterState,
+  Iteration,
+  UsageTotals,
+  Worktree,
+} from '../types/state.js';
+import { StateMachine, FailureDetails } from './state-machine.js';
+import { StateStore } from './state-store.js';
 import { StoryPicker } from './story-picker.js';
 import { GitManager } from './git-manager.js';
 import { AiRunner, createAiRunner } from './ai-runner.js';
 import { OutputParser, outputParser } from './output-parser.js';
-import { VerificationPipeline } from '../verification/pipeline.js';
+import { PromptContext, PromptRenderer, createPromptRenderer } from './prompt-renderer.js';
+import { StoryPlanner, createStoryPlanner } from './planner.js';
+import { StoryReviewer, createStoryReviewer } from './reviewer.js';
+import { estimateCost, formatCost, formatTotals } from './usage.js';
+import { BudgetCheck, checkBudget } from './budget.js';
+import { IterationTranscript, createRunId } from './transcript.js';
+import { OrchestratorEventBus } from './events.js';
+import { VerificationPipeline, tailOutput } from '../verification/pipeline.js';
 import { ArchiveManager } from '../utils/archive.js';
 import { logger } from '../utils/logger.js';
-import { sleep, calculateBackoffDelay } from '../utils/retry.js';
+import { runShellCommand } from '../utils/process.js';
+import { sleep, calculateRetryDelay } from '../utils/retry.js';
+import { renderTemplate } from '../utils/template.js';
+
+/** What to do with an iteration that a previous process left unfinished. */
+export type RecoveryAction = 'reset' | 'verify';
+
+/** A verified story waiting for a human to review it. */
+export interface ApprovalRequest {
+  story: UserStory;
+  iteration: Iteration;
+  // Where the changes are: the checkout, or the story's worktree
+  cwd: string;
+  files: string[];
+}
+
+/**
+ * A reviewer's answer. `edit` means they changed the files by hand; the
+ * story is verified again and completed without asking a second time.
+ */
+export type ApprovalDecision =
+  | { action: 'approve' }
+  | { action: 'reject'; feedback: string }
+  | { action: 'edit' };
 
 export interface OrchestratorOptions {
   config: GushterConfig;
@@ -19,6 +58,10 @@ export interface OrchestratorOptions {
   targetStory?: string;
   resume?: boolean;
   showDashboard?: boolean;
+  // Decides how to recover each interrupted iteration on resume; defaults to 'reset'
+  chooseRecovery?: (iteration: Iteration, story: UserStory) => Promise<RecoveryAction>;
+  // Asks a human to review a verified story when `config.approval` calls for it
+  requestApproval?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
 }
 
 export interface OrchestratorResult {
@@ -28,52 +71,171 @@ export interface OrchestratorResult {
   blockedStories: string[];
   iterationsUsed: number;
   reachedMaxIterations: boolean;
+  budgetExceeded?: BudgetCheck;
+  aborted: boolean;
+  interrupted: boolean;
+  usage: UsageTotals;
+}
+
+// How often a paused run checks whether it was resumed
+const PAUSE_POLL_MS = 250;
+
+// Parallel iterations each get a worktree here, named after their story
+const WORKTREE_DIR = '.gushter/worktrees';
+
+const COST_LABELS: Record<AgentRole, string> = {
+  planner: 'Planning',
+  implementer: 'Iteration',
+  reviewer: 'Review',
+};
+
+interface LoopResult {
+  iterationsUsed: number;
+  budgetExceeded?: BudgetCheck;
 }
 
 export class Orchestrator {
+  /** Lifecycle events; subscribe before calling `run()`. */
+  readonly events = new OrchestratorEventBus();
+
   private config: GushterConfig;
   private cwd: string;
   private dryRun: boolean;
   private targetStory?: string;
+  private resume: boolean;
+  private showDashboard: boolean;
+  private workers: number;
+  private chooseRecovery: (iteration: Iteration, story: UserStory) => Promise<RecoveryAction>;
+  private requestApproval?: (request: ApprovalRequest) => Promise<ApprovalDecision>;
+  // Parallel stories take turns asking for approval
+  private approvalQueue: Promise<unknown> = Promise.resolve();
+  private runId: string;
+  private stateStore: StateStore;
 
   private prd!: Prd;
   private stateMachine!: StateMachine;
   private storyPicker!: StoryPicker;
   private gitManager!: GitManager;
   private aiRunner!: AiRunner;
+  private promptRenderer!: PromptRenderer;
   private parser: OutputParser;
   private verificationPipeline!: VerificationPipeline;
+  private storyPlanner!: StoryPlanner;
+  private storyReviewer!: StoryReviewer;
   private archiveManager!: ArchiveManager;
 
+  // Run controls, e.g. from dashboard keybindings
+  private paused = false;
+  private stopRequested: 'abort' | 'interrupt' | null = null;
+  private currentStoryId: string | null = null;
+  // Stops the agent or command each story is running
+  private stepControllers = new Map<string, AbortController>();
+  private delayControllers = new Set<AbortController>();
+
   constructor(options: OrchestratorOptions) {
     this.config = options.config;
     this.cwd = options.cwd;
     this.dryRun = options.dryRun;
     this.targetStory = options.targetStory;
-    // Dashboard feature: options.showDashboard (reserved for future)
+    this.resume = options.resume ?? false;
+    this.chooseRecovery = options.chooseRecovery ?? (async () => 'reset');
+    this.requestApproval = options.requestApproval;
+    this.showDashboard = options.showDashboard ?? false;
+    // Dry runs create no worktrees, and a targeted story has nothing to run beside it
+    this.workers =
+      options.dryRun || options.targetStory ? 1 : options.config.parallel.workers;
+    this.runId = createRunId();
+    this.stateStore = new StateStore(options.cwd);
     this.parser = outputParser;
   }
 
   async run(): Promise<OrchestratorResult> {
+    // A second run in the same checkout would overwrite this one's state
+    this.stateStore.acquireLock();
+    try {
+      return await this.execute();
+    } finally {
+      this.stateStore.releaseLock();
+    }
+  }
+
+  private async execute(): Promise<OrchestratorResult> {
     // Initialize components
     await this.initialize();
 
+    // Settle interrupted work before anything is rendered, as recovery may prompt
+    if (this.resume) {
+      await this.recoverInterruptedIterations();
+    }
+
+    this.events.emit('run:start', {
+      runId: this.runId,
+      branchName: this.prd.branchName,
+      totalStories: this.storyPicker.getTotalCount(),
+      completedStories: this.storyPicker.getCompletedCount(),
+      maxIterations: this.config.maxIterations,
+    });
+
+    const { iterationsUsed, budgetExceeded } =
+      this.workers > 1 ? await this.runParallel() : await this.runSequential();
+
+    // Generate result
+    const blockedStories = this.stateMachine.getBlockedStories();
+    const completedCount = this.storyPicker.getCompletedCount();
+    const totalCount = this.storyPicker.getTotalCount();
+
+    const result: OrchestratorResult = {
+      success: this.storyPicker.isAllComplete(),
+      totalStories: totalCount,
+      completedStories: completedCount,
+      blockedStories,
+      iterationsUsed,
+      reachedMaxIterations: !this.stateMachine.canStartNewIteration(),
+      budgetExceeded,
+      aborted: this.stopRequested === 'abort',
+      interrupted: this.stopRequested === 'interrupt',
+      usage: this.stateMachine.getRunTotals(),
+    };
+
+    this.events.emit('run:end', { result });
+    return result;
+  }
+
+  private async runSequential(): Promise<LoopResult> {
     let iterationsUsed = 0;
+    let budgetExceeded: BudgetCheck | undefined;
 
-    // Main loop
     while (this.stateMachine.canStartNewIteration()) {
+      await this.waitWhilePaused();
+      if (this.stopRequested) {
+        break;
+      }
+
+      // Stop before starting work the budget no longer covers
+      budgetExceeded = this.checkBudgetLimit();
+      if (budgetExceeded) {
+        break;
+      }
+
       // Update blocked stories in picker
       this.storyPicker.updateBlockedStories(this.stateMachine.getBlockedStories());
 
       // Check if all stories are complete or blocked
       if (this.storyPicker.isAllCompletedOrBlocked()) {
+        this.logWaitingStories();
         break;
       }
 
       // Pick next story
       const story = this.storyPicker.getNextStory();
       if (!story) {
-        logger.warn('No more stories to work on');
+        const target = this.prd.userStories.find((s) => s.id === this.targetStory);
+        if (target && this.storyPicker.isWaiting(target)) {
+          const waitingOn = this.storyPicker.getWaitingOn(target).join(', ');
+          logger.warn(`${target.id} is waiting on ${waitingOn}`);
+        } else {
+          logger.warn('No more stories to work on');
+        }
         break;
       }
 
@@ -85,26 +247,212 @@ export class Orchestrator {
         logger.success('All stories complete!');
         break;
       }
+      if (this.stopRequested) {
+        break;
+      }
 
       // Brief pause between iterations
       if (!this.dryRun) {
-        await sleep(2000);
+        await this.delay(2000);
       }
     }
 
-    // Generate result
-    const blockedStories = this.stateMachine.getBlockedStories();
-    const completedCount = this.storyPicker.getCompletedCount();
-    const totalCount = this.storyPicker.getTotalCount();
+    return { iterationsUsed, budgetExceeded };
+  }
 
-    return {
-      success: this.storyPicker.isAllComplete(),
-      totalStories: totalCount,
-      completedStories: completedCount,
-      blockedStories,
-      iterationsUsed,
-      reachedMaxIterations: !this.stateMachine.canStartNewIteration(),
-    };
+  /**
+   * Keeps up to `parallel.workers` stories running at once, each in its own
+   * worktree. Stories that depend on a running story wait for it to merge.
+   */
+  private async runParallel(): Promise<LoopResult> {
+    const running = new Map<string, Promise<void>>();
+    let iterationsUsed = 0;
+    let budgetExceeded: BudgetCheck | undefined;
+
+    for (;;) {
+      while (
+        running.size < this.workers &&
+        !this.paused &&
+        !this.stopRequested &&
+        !budgetExceeded &&
+        this.stateMachine.canStartNewIteration()
+      ) {
+        budgetExceeded = this.checkBudgetLimit();
+        if (budgetExceeded) {
+          break;
+        }
+
+        this.storyPicker.updateBlockedStories(this.stateMachine.getBlockedStories());
+        const story = this.storyPicker.getNextStory(new Set(running.keys()));
+        if (!story) {
+          break;
+        }
+
+        iterationsUsed++;
+        const task = this.runWorktreeIteration(story).finally(() => running.delete(story.id));
+        running.set(story.id, task);
+      }
+
+      if (running.size > 0) {
+        await Promise.race(running.values());
+      } else if (this.paused && !this.stopRequested) {
+        await this.waitWhilePaused();
+      } else {
+        break;
+      }
+    }
+
+    if (this.storyPicker.isAllComplete()) {
+      logger.success('All stories complete!');
+    } else if (this.storyPicker.isAllCompletedOrBlocked()) {
+      this.logWaitingStories();
+    }
+    return { iterationsUsed, budgetExceeded };
+  }
+
+  private checkBudgetLimit(): BudgetCheck | undefined {
+    const budgetCheck = checkBudget(
+      this.config.budget,
+      this.stateMachine.getRunTotals(),
+      this.stateMachine.getState().startedAt
+    );
+    if (budgetCheck) {
+      logger.warn(budgetCheck.message);
+      this.events.emit('budget:exceeded', budgetCheck);
+    }
+    return budgetCheck ?? undefined;
+  }
+
+  private logWaitingStories(): void {
+    for (const story of this.storyPicker.getWaitingStories()) {
+      const waitingOn = this.storyPicker.getWaitingOn(story).join(', ');
+      logger.warn(`${story.id} is waiting on ${waitingOn}`);
+    }
+  }
+
+  /** Pauses before the next iteration, or resumes a paused run. Returns the new paused state. */
+  togglePause(): boolean {
+    this.paused = !this.paused;
+    logger.info(this.paused ? 'Pausing after the current iteration' : 'Resuming run');
+    this.events.emit(this.paused ? 'run:paused' : 'run:resumed', {});
+    return this.paused;
+  }
+
+  /** Whether the run is paused before its next iteration. */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Whether an abort or interrupt was requested and the run is winding down. */
+  isStopping(): boolean {
+    return this.stopRequested !== null;
+  }
+
+  /** Sets the current story aside for the rest of this run, stopping its agent if it is running. */
+  skipCurrentStory(): void {
+    const storyId = this.currentStoryId;
+    if (!storyId || this.storyPicker.isSkipped(storyId)) {
+      return;
+    }
+
+    logger.warn(`Skipping ${storyId} for the rest of this run`);
+    this.storyPicker.skipStory(storyId);
+    this.events.emit('story:skipped', { storyId });
+    this.stepControllers.get(storyId)?.abort();
+    this.retryNow();
+  }
+
+  /** Unblocks a story and gives it a fresh set of attempts. */
+  unblockStory(storyId: string): void {
+    if (!this.stateMachine.isStoryBlocked(storyId)) {
+      return;
+    }
+
+    this.stateMachine.unblockStory(storyId);
+    this.storyPicker.updateBlockedStories(this.stateMachine.getBlockedStories());
+    logger.info(`Unblocked ${storyId}`);
+    this.events.emit('story:unblocked', { storyId });
+  }
+
+  /** Ends a pending retry or between-iteration delay early. */
+  retryNow(): void {
+    for (const controller of this.delayControllers) {
+      controller.abort();
+    }
+  }
+
+  /**
+   * Stops the run: a running agent, setup or verification command is killed
+   * and its iteration rolled back, and no further iterations start.
+   */
+  abort(): void {
+    this.requestStop('abort');
+  }
+
+  /**
+   * Stops the run so it can be continued with `--resume`: a running agent,
+   * setup or verification command is killed and its iteration marked
+   * interrupted, keeping its changes.
+   */
+  interrupt(): void {
+    this.requestStop('interrupt');
+  }
+
+  private requestStop(mode: 'abort' | 'interrupt'): void {
+    if (this.stopRequested) {
+      return;
+    }
+
+    this.stopRequested = mode;
+    if (mode === 'abort') {
+      logger.warn('Aborting run...');
+      this.events.emit('run:aborting', {});
+    } else {
+      logger.warn('Interrupting run...');
+      this.events.emit('run:interrupting', {});
+    }
+    for (const controller of this.stepControllers.values()) {
+      controller.abort();
+    }
+    this.retryNow();
+  }
+
+  /**
+   * Registers the controller for a story's next agent run or command. It
+   * starts out aborted when the run was stopped before the step began.
+   */
+  private startStep(storyId: string): AbortController {
+    const controller = new AbortController();
+    this.stepControllers.set(storyId, controller);
+    if (this.stopRequested) {
+      controller.abort();
+    }
+    return controller;
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.paused && !this.stopRequested) {
+      await sleep(PAUSE_POLL_MS);
+    }
+  }
+
+  private async delay(ms: number): Promise<void> {
+    const controller = new AbortController();
+    this.delayControllers.add(controller);
+    try {
+      await sleep(ms, controller.signal);
+    } finally {
+      this.delayControllers.delete(controller);
+    }
+  }
+
+  /** Current run state; available once `run:start` has been emitted. */
+  getState(): GushterState {
+    return this.stateMachine.getState();
+  }
+
+  getPrd(): Prd {
+    return this.prd;
   }
 
   private async initialize(): Promise<void> {
@@ -133,7 +481,42 @@ export class Orchestrator {
       cwd: this.cwd,
       maxIterations: this.config.maxIterations,
       branchName: this.prd.branchName,
+      resume: this.resume,
+      store: this.stateStore,
     });
+    if (this.resume) {
+      const { currentIteration, usage } = this.stateMachine.getState();
+      logger.info(`Resuming at iteration ${currentIteration} (${formatTotals(usage.run)})`);
+    }
+
+    const measuresCost =
+      this.config.agent.outputFormat === 'stream-json' || this.config.agent.type === 'fixture';
+    if (this.config.budget.maxCostUsd !== undefined && !measuresCost) {
+      logger.warn(
+        "budget.maxCostUsd needs agent.outputFormat 'stream-json' to measure cost; it will not be enforced"
+      );
+    }
+
+    if (this.workers > 1) {
+      logger.info(`Running up to ${this.workers} stories in parallel`);
+      if (!this.config.git.autoCommit) {
+        logger.warn('Parallel runs commit every verified story; git.autoCommit is ignored');
+      }
+      // Agents append to the progress log side by side; keep every side's lines
+      this.gitManager.setMergeDriver(this.config.progressPath, 'union');
+      // Worktrees start from HEAD, so agents would create their own copies of
+      // uncommitted run files, which then cannot be merged over the originals
+      const runFiles = [this.config.prdPath, this.config.progressPath];
+      if (this.gitManager.commitPaths(runFiles, 'chore: track the PRD and progress log')) {
+        logger.info(`Committed ${runFiles.join(' and ')} for the worktrees to start from`);
+      }
+    }
+
+    if (this.config.approval !== 'none' && !this.requestApproval && !this.dryRun) {
+      logger.warn(
+        `approval is '${this.config.approval}' but there is no one to ask; stories are approved automatically`
+      );
+    }
 
     // Initialize story picker
     this.storyPicker = new StoryPicker(this.prd, {
@@ -142,14 +525,22 @@ export class Orchestrator {
     });
 
     // Initialize AI runner
-    this.aiRunner = createAiRunner(this.config, this.cwd, this.dryRun);
+    // The dashboard shows agent output from events instead of the raw stream
+    this.aiRunner = createAiRunner(this.config, this.cwd, this.dryRun, !this.showDashboard);
+
+    // Initialize prompt renderer
+    this.promptRenderer = createPromptRenderer(this.config, this.cwd);
 
     // Initialize verification pipeline
     this.verificationPipeline = new VerificationPipeline(
       this.config.verification.commands,
       this.cwd,
-      this.dryRun
+      this.dryRun,
+      this.config.verification.timeoutMs
     );
+
+    this.storyPlanner = createStoryPlanner(this.config, this.cwd, this.aiRunner);
+    this.storyReviewer = createStoryReviewer(this.config, this.cwd, this.aiRunner);
   }
 
   private loadPrd(): Prd {
@@ -183,7 +574,55 @@ export class Orchestrator {
     }
   }
 
-  private async runIteration(story: UserStory): Promise<{ complete: boolean }> {
+  private async runWorktreeIteration(story: UserStory): Promise<void> {
+    let worktree: Worktree;
+    try {
+      worktree = this.createWorktree(story);
+    } catch (error) {
+      logger.error(`Could not create a worktree for ${story.id}: ${error}`);
+      this.storyPicker.skipStory(story.id);
+      return;
+    }
+
+    await this.runIteration(story, worktree);
+  }
+
+  private createWorktree(story: UserStory): Worktree {
+    const worktree: Worktree = {
+      path: resolve(this.cwd, WORKTREE_DIR, story.id),
+      branch: `${this.prd.branchName}-${story.id}`,
+    };
+    // Clear out a worktree an earlier run never cleaned up
+    this.gitManager.removeWorktree(worktree.path, worktree.branch);
+    this.gitManager.addWorktree(worktree.path, worktree.branch);
+    return worktree;
+  }
+
+  /** Runs the setup commands in a new worktree. Returns false if the run was stopped first. */
+  private async setupWorktree(storyId: string, worktree: Worktree): Promise<boolean> {
+    const { setupCommands, setupTimeoutMs } = this.config.parallel;
+    for (const command of setupCommands) {
+      logger.info(`Setting up worktree: ${command}`);
+      const result = await runShellCommand(command, {
+        cwd: worktree.path,
+        timeoutMs: setupTimeoutMs,
+        signal: this.startStep(storyId).signal,
+      }).finally(() => this.stepControllers.delete(storyId));
+      if (result.aborted) {
+        return false;
+      }
+      if (result.timedOut) {
+        throw new Error(`Worktree setup timed out after ${setupTimeoutMs}ms: ${command}`);
+      }
+      if (result.exitCode !== 0) {
+        const output = result.stderr || result.stdout;
+        throw new Error(`Worktree setup failed: ${command}\n${tailOutput(output, 20)}`);
+      }
+    }
+    return true;
+  }
+
+  private async runIteration(story: UserStory, worktree?: Worktree): Promise<{ complete: boolean }> {
     const iterationNum = this.stateMachine.getCurrentIteration() + 1;
     const maxIterations = this.config.maxIterations;
 
@@ -191,104 +630,684 @@ export class Orchestrator {
     logger.info(`Story: ${story.title}`);
     logger.newline();
 
+    // Capture the previous attempt before the state machine replaces it
+    const lastAttempt = this.stateMachine.getLastIterationForStory(story.id);
+    const previousAttempt = lastAttempt?.status === 'failed' ? lastAttempt : undefined;
+
     // Start iteration in state machine
-    const iteration = this.stateMachine.startIteration(story.id);
+    this.currentStoryId = story.id;
+    const transcript = new IterationTranscript(this.cwd, this.runId, iterationNum, story.id);
+    const iteration = this.stateMachine.startIteration(story.id, transcript.dir, worktree);
+    this.events.emit('iteration:start', {
+      iteration,
+      story,
+      number: iterationNum,
+      maxIterations,
+    });
 
     try {
+      if (worktree && !(await this.setupWorktree(story.id, worktree))) {
+        await this.stopIteration(story, iteration.startSha);
+        return { complete: false };
+      }
+
+      const context: PromptContext = {
+        prd: this.prd,
+        story,
+        iteration: iterationNum,
+        maxIterations,
+        retryCount: iteration.retryCount,
+        previousAttempt,
+      };
+
+      if (this.needsPlan(story)) {
+        const plan = await this.planStory(context, iteration, transcript);
+        if (plan === null) {
+          return { complete: false };
+        }
+        context.plan = plan;
+      }
+
+      // Render the prompt for this story
+      const prompt = this.promptRenderer.render(context);
+
       // Run AI tool
       logger.info('Running AI agent...');
-      const aiResult = await this.aiRunner.run();
+      transcript.writePrompt(prompt);
+      const agentController = this.startStep(story.id);
+      const aiResult = await this.aiRunner.run(prompt, {
+        cwd: worktree?.path,
+        signal: agentController.signal,
+        storyId: story.id,
+        model: this.config.agent.model,
+        onOutput: (chunk, stream) => {
+          transcript.appendOutput(chunk, stream);
+          this.events.emit('agent:output', { storyId: story.id, chunk, stream });
+        },
+        onEvent: (event) => {
+          transcript.appendEvent(event);
+          this.events.emit('agent:event', { storyId: story.id, event });
+        },
+      });
+
+      this.stepControllers.delete(story.id);
+
+      if (aiResult.stats) {
+        this.recordStats(story.id, aiResult.stats, 'implementer');
+      }
+
+      // Stopped from the outside: discard the partial work without counting an attempt
+      if (aiResult.aborted) {
+        await this.stopIteration(story, iteration.startSha);
+        return { complete: false };
+      }
+
+      // A timed-out agent is killed mid-task, so its output is not trustworthy
+      if (aiResult.timeout) {
+        this.events.emit('agent:complete', {
+          storyId: story.id,
+          result: aiResult,
+          structured: null,
+        });
+        const limitMs =
+          aiResult.timeout === 'idle'
+            ? this.config.agent.idleTimeoutMs
+            : this.config.agent.timeoutMs;
+        await this.handleFailure(
+          story.id,
+          `Agent timed out (${aiResult.timeout} timeout after ${limitMs}ms)`,
+          iteration.startSha,
+          { reason: 'timeout' }
+        );
+        return { complete: false };
+      }
 
       // Parse output
       const parsed = this.parser.parse(aiResult.output);
+      transcript.writeParsedOutput(parsed.structured);
+      this.events.emit('agent:complete', {
+        storyId: story.id,
+        result: aiResult,
+        structured: parsed.structured,
+      });
+
+      // An agent that reports itself blocked is not retried
+      const blocked = this.parser.isBlocked(parsed);
+
+      // Check if AI reported success
+      if (this.parser.isSuccess(parsed)) {
+        return await this.verifyStory(
+          story,
+          iteration,
+          transcript,
+          parsed.structured?.error ?? undefined,
+          blocked
+        );
+      } else {
+        // AI reported failure
+        const error =
+          this.parser.getError(parsed) ?? (blocked ? 'AI reported blocked' : 'AI reported failure');
+        await this.handleFailure(
+          story.id,
+          error,
+          iteration.startSha,
+          {
+            reason: 'agent',
+            agentError: parsed.structured?.error ?? undefined,
+          },
+          blocked
+        );
+      }
+    } catch (error) {
+      this.stepControllers.delete(story.id);
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await this.handleFailure(story.id, errorMsg, iteration.startSha);
+    }
+
+    return { complete: false };
+  }
+
+  /**
+   * Runs verification for a story's changes. Passing checks complete the
+   * story, after the reviewer agent and a human approve it when configured;
+   * failing ones are recorded as a verification failure.
+   */
+  private async verifyStory(
+    story: UserStory,
+    iteration: Iteration,
+    transcript: IterationTranscript,
+    agentError?: string,
+    blocked = false,
+    reviewed = false
+  ): Promise<{ complete: boolean }> {
+    const pipeline = iteration.worktree
+      ? new VerificationPipeline(
+          this.config.verification.commands,
+          iteration.worktree.path,
+          this.dryRun,
+          this.config.verification.timeoutMs
+        )
+      : this.verificationPipeline;
+
+    this.events.emit('verification:start', {
+      storyId: story.id,
+      commands: pipeline.getCommands(),
+    });
+    const controller = this.startStep(story.id);
+    const verificationResult = await pipeline
+      .run(
+        (result) => this.events.emit('verification:command', { storyId: story.id, result }),
+        controller.signal
+      )
+      .finally(() => this.stepControllers.delete(story.id));
+    transcript.writeVerification(verificationResult);
+    this.events.emit('verification:complete', {
+      storyId: story.id,
+      result: verificationResult,
+    });
 
-      // Check for completion signal
-      if (this.parser.isComplete(parsed)) {
-        // Mark story as passing
-        this.markStoryComplete(story.id);
-        this.stateMachine.completeIteration(story.id);
+    // Stopped from the outside: the checks were killed, so there is no verdict
+    if (verificationResult.aborted) {
+      await this.stopIteration(story, iteration.startSha);
+      return { complete: false };
+    }
 
-        // Check if all stories are complete
-        if (this.storyPicker.isAllComplete()) {
-          return { complete: true };
+    if (verificationResult.success) {
+      // Work a human edited during approval is not sent back to the reviewer agent
+      if (!reviewed && this.needsReview(story)) {
+        const outcome = await this.reviewStory(story, iteration, transcript, agentError, blocked);
+        if (outcome !== 'passed') {
+          return { complete: false };
         }
       }
 
-      // Check if AI reported success
-      if (this.parser.isSuccess(parsed)) {
-        // Run verification pipeline
-        const verificationResult = await this.verificationPipeline.run();
-
-        if (verificationResult.success) {
-          // Mark story as passing
-          this.markStoryComplete(story.id);
-          this.stateMachine.completeIteration(story.id);
-          logger.success(`Story ${story.id} completed successfully`);
-        } else {
-          // Verification failed - handle retry
+      if (!reviewed && this.needsApproval(iteration)) {
+        const decision = await this.askApproval(story, iteration);
+        if (!decision) {
+          await this.stopIteration(story, iteration.startSha);
+          return { complete: false };
+        }
+        if (decision.action === 'reject') {
+          const feedback = decision.feedback.trim();
           await this.handleFailure(
             story.id,
-            'Verification failed',
-            iteration.startSha
+            feedback ? `Rejected in review: ${feedback}` : 'Rejected in review',
+            iteration.startSha,
+            { reason: 'rejected', agentError },
+            blocked
           );
+          return { complete: false };
         }
-      } else {
-        // AI reported failure
-        const error = this.parser.getError(parsed) ?? 'AI reported failure';
-        await this.handleFailure(story.id, error, iteration.startSha);
+        if (decision.action === 'edit') {
+          logger.info(`Verifying ${story.id} again with the reviewer's edits`);
+          return this.verifyStory(story, iteration, transcript, agentError, blocked, true);
+        }
+        logger.info(`Story ${story.id} approved`);
       }
 
-      // Check for blocked status
-      if (this.parser.isBlocked(parsed)) {
-        this.stateMachine.failIteration(
+      if (iteration.worktree && !this.mergeWorktree(story, iteration.worktree)) {
+        await this.handleFailure(
           story.id,
-          'AI reported blocked',
-          1 // Immediately block
+          `Merge conflict bringing ${story.id} onto ${this.prd.branchName}`,
+          iteration.startSha,
+          { reason: 'conflict', agentError },
+          blocked
         );
+        return { complete: false };
       }
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      await this.handleFailure(story.id, errorMsg, iteration.startSha);
+
+      await this.completeStory(story, iteration.number ?? this.stateMachine.getCurrentIteration());
+      logger.success(`Story ${story.id} completed successfully`);
+
+      // Check if all stories are complete
+      return { complete: this.storyPicker.isAllComplete() };
     }
 
+    // Verification failed - handle retry with the failing output
+    const verificationFailures = pipeline.summarizeFailures(
+      verificationResult,
+      this.config.verification.feedbackMaxLines
+    );
+    const failedNames = verificationFailures.map((f) => f.name).join(', ');
+    await this.handleFailure(
+      story.id,
+      `Verification failed: ${failedNames}`,
+      iteration.startSha,
+      { reason: 'verification', agentError, verificationFailures },
+      blocked
+    );
     return { complete: false };
   }
 
+  /** The agent roles that run for a story: its own list, or the ones the config enables. */
+  private rolesFor(story: UserStory): AgentRole[] {
+    if (story.roles) {
+      return story.roles;
+    }
+
+    const roles: AgentRole[] = ['implementer'];
+    if (this.config.plan.enabled) {
+      roles.unshift('planner');
+    }
+    if (this.config.review.enabled) {
+      roles.push('reviewer');
+    }
+    return roles;
+  }
+
+  private needsPlan(story: UserStory): boolean {
+    return !this.dryRun && this.rolesFor(story).includes('planner');
+  }
+
+  private needsReview(story: UserStory): boolean {
+    return (
+      !this.dryRun &&
+      this.rolesFor(story).includes('reviewer') &&
+      story.acceptanceCriteria.length > 0
+    );
+  }
+
+  /**
+   * Has the planner agent write a plan for the implementer. Returns null
+   * when there is no plan, after recording the failure or the stop.
+   */
+  private async planStory(
+    context: PromptContext,
+    iteration: Iteration,
+    transcript: IterationTranscript
+  ): Promise<string | null> {
+    const { story } = context;
+    logger.info(`Planning ${story.id}...`);
+    this.events.emit('plan:start', { storyId: story.id });
+
+    const controller = this.startStep(story.id);
+    const result = await this.storyPlanner
+      .plan(context, iteration, transcript, {
+        signal: controller.signal,
+        onOutput: (chunk, stream) =>
+          this.events.emit('agent:output', { storyId: story.id, chunk, stream }),
+        onEvent: (event) => this.events.emit('agent:event', { storyId: story.id, event }),
+      })
+      .finally(() => this.stepControllers.delete(story.id));
+
+    if (result.agentResult.stats) {
+      this.recordStats(story.id, result.agentResult.stats, 'planner');
+    }
+    this.events.emit('plan:complete', { storyId: story.id, plan: result.plan });
+
+    if (result.agentResult.aborted) {
+      await this.stopIteration(story, iteration.startSha);
+      return null;
+    }
+
+    if (!result.plan) {
+      await this.handleFailure(story.id, `Planning failed: ${result.error}`, iteration.startSha, {
+        reason: result.agentResult.timeout ? 'timeout' : 'agent',
+      });
+      return null;
+    }
+
+    logger.info(`Plan saved to ${transcript.dir}/plan.md`);
+    return result.plan;
+  }
+
+  /**
+   * Has the reviewer agent check the story against its acceptance criteria.
+   * Unmet criteria fail the iteration, and are passed to the next attempt.
+   */
+  private async reviewStory(
+    story: UserStory,
+    iteration: Iteration,
+    transcript: IterationTranscript,
+    agentError: string | undefined,
+    blocked: boolean
+  ): Promise<'passed' | 'failed' | 'stopped'> {
+    logger.info(`Reviewing ${story.id} against its acceptance criteria...`);
+    this.events.emit('review:start', { storyId: story.id, criteria: story.acceptanceCriteria });
+
+    const controller = this.startStep(story.id);
+    const result = await this.storyReviewer
+      .review(this.prd, story, iteration, transcript, {
+        signal: controller.signal,
+        onOutput: (chunk, stream) =>
+          this.events.emit('agent:output', { storyId: story.id, chunk, stream }),
+      })
+      .finally(() => this.stepControllers.delete(story.id));
+
+    if (result.agentResult.stats) {
+      this.recordStats(story.id, result.agentResult.stats, 'reviewer');
+    }
+    this.events.emit('review:complete', { storyId: story.id, result });
+
+    if (result.agentResult.aborted) {
+      await this.stopIteration(story, iteration.startSha);
+      return 'stopped';
+    }
+
+    if (result.passed) {
+      logger.success(`Review passed: ${story.id} meets all ${story.acceptanceCriteria.length} criteria`);
+      return 'passed';
+    }
+
+    const error = result.error
+      ? `Review failed: ${result.error}`
+      : `Review failed: ${result.failures.length} of ${story.acceptanceCriteria.length} criteria not met`;
+    for (const failure of result.failures) {
+      logger.warn(`Unmet: ${failure.criterion} (${failure.reason})`);
+    }
+    await this.handleFailure(
+      story.id,
+      error,
+      iteration.startSha,
+      {
+        // Like the implementer's, a reviewer timeout counts toward maxTimeoutsPerStory
+        reason: result.agentResult.timeout ? 'timeout' : 'review',
+        agentError,
+        reviewFailures: result.failures.length > 0 ? result.failures : undefined,
+      },
+      blocked
+    );
+    return 'failed';
+  }
+
+  private needsApproval(iteration: Iteration): boolean {
+    if (!this.requestApproval || this.dryRun) {
+      return false;
+    }
+
+    switch (this.config.approval) {
+      case 'per-story':
+        return true;
+      case 'on-failure':
+        // Attempt counts carry over, so these are the stories that failed before
+        return iteration.retryCount + iteration.timeoutCount > 0;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Shows a verified story's changes to the reviewer, one story at a time.
+   * Returns null when the run is stopped before or while asking.
+   */
+  private async askApproval(
+    story: UserStory,
+    iteration: Iteration
+  ): Promise<ApprovalDecision | null> {
+    const requestApproval = this.requestApproval;
+    if (!requestApproval) {
+      return { action: 'approve' };
+    }
+
+    const cwd = iteration.worktree?.path ?? this.cwd;
+    const files = new GitManager(cwd).getFilesChangedSince(iteration.startSha);
+    const decision = this.approvalQueue.then(async () => {
+      if (this.stopRequested) {
+        return null;
+      }
+      this.events.emit('approval:request', { story, files });
+      const answer = await requestApproval({ story, iteration, cwd, files });
+      this.events.emit('approval:complete', { storyId: story.id, decision: answer });
+      return answer;
+    });
+    this.approvalQueue = decision.catch(() => undefined);
+
+    try {
+      return await decision;
+    } catch (error) {
+      // A prompt cut short by Ctrl+C is a stop, not a failed attempt
+      if (this.stopRequested) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settles iterations a previous process left in progress: either resets
+   * them to their start SHA or verifies the work they left behind.
+   */
+  private async recoverInterruptedIterations(): Promise<void> {
+    for (const iteration of this.stateMachine.getInterruptedIterations()) {
+      const story = this.prd.userStories.find((s) => s.id === iteration.storyId);
+      const canVerify =
+        story && !this.dryRun && (!iteration.worktree || existsSync(iteration.worktree.path));
+      let action: RecoveryAction;
+      try {
+        action = canVerify ? await this.chooseRecovery(iteration, story) : 'reset';
+      } catch (error) {
+        // Stopped while asking: leave this and later iterations interrupted
+        if (this.stopRequested) {
+          return;
+        }
+        throw error;
+      }
+      logger.info(`Recovering interrupted iteration for ${iteration.storyId}: ${action}`);
+      this.stateMachine.reopenIteration(iteration.storyId);
+
+      if (story && action === 'verify') {
+        this.currentStoryId = story.id;
+        const transcript = iteration.transcriptDir
+          ? IterationTranscript.open(this.cwd, iteration.transcriptDir)
+          : new IterationTranscript(this.cwd, this.runId, iteration.number ?? 0, story.id);
+        try {
+          await this.verifyStory(story, iteration, transcript);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          await this.handleFailure(story.id, errorMsg, iteration.startSha);
+        }
+      } else {
+        if (!this.dryRun) {
+          await this.discardChanges(iteration.storyId, iteration.startSha);
+        }
+        this.stateMachine.markRolledBack(iteration.storyId);
+      }
+    }
+  }
+
   private async handleFailure(
     storyId: string,
     error: string,
-    startSha: string
+    startSha: string,
+    details: FailureDetails = {},
+    blockImmediately = false
   ): Promise<void> {
     logger.error(`Iteration failed: ${error}`);
 
     // Rollback to start SHA
     if (!this.dryRun) {
       logger.info('Rolling back changes...');
-      await this.gitManager.resetToSha(startSha);
+      await this.discardChanges(storyId, startSha);
     }
 
-    // Update state machine
+    // Update state machine; timeouts have their own attempt limit
+    const reason = details.reason ?? 'error';
+    const maxAttempts = blockImmediately
+      ? 1
+      : reason === 'timeout'
+        ? this.config.maxTimeoutsPerStory
+        : this.config.maxRetriesPerStory;
     const status = this.stateMachine.failIteration(
       storyId,
       error,
-      this.config.maxRetriesPerStory
+      maxAttempts,
+      { ...details, reason }
     );
 
+    const lastIteration = this.stateMachine.getLastIterationForStory(storyId);
+
     if (status === 'blocked') {
-      logger.error(`Story ${storyId} is now blocked after max retries`);
+      if (blockImmediately) {
+        logger.error(`Story ${storyId} is now blocked by the agent`);
+      } else {
+        const kind = reason === 'timeout' ? 'timeouts' : 'retries';
+        logger.error(`Story ${storyId} is now blocked after max ${kind}`);
+      }
+      if (lastIteration) {
+        this.events.emit('iteration:failed', { iteration: lastIteration, reason, error });
+        this.events.emit('story:blocked', { storyId, iteration: lastIteration });
+      }
     } else {
       // Calculate retry delay
-      const lastIteration = this.stateMachine.getLastIterationForStory(storyId);
-      const retryCount = lastIteration?.retryCount ?? 1;
-      const delay = calculateBackoffDelay(retryCount, this.config.retry);
+      const attempts =
+        (reason === 'timeout' ? lastIteration?.timeoutCount : lastIteration?.retryCount) ?? 1;
+      const delay = calculateRetryDelay(reason, attempts, this.config.retry);
 
-      logger.info(`Will retry in ${delay}ms (attempt ${retryCount + 1})`);
-      if (!this.dryRun) {
-        await sleep(delay);
+      if (lastIteration) {
+        this.events.emit('iteration:failed', {
+          iteration: lastIteration,
+          reason,
+          error,
+          retryDelayMs: delay,
+        });
       }
+
+      logger.info(`Will retry in ${delay}ms (attempt ${attempts + 1})`);
+      if (!this.dryRun && !this.stopRequested) {
+        await this.delay(delay);
+      }
+    }
+  }
+
+  private recordStats(storyId: string, stats: AgentStats, role: AgentRole): void {
+    const costUsd = estimateCost(stats.usage, stats.model, this.config.pricing);
+    this.stateMachine.recordAgentStats(storyId, stats, costUsd, role);
+    logger.debug(
+      `The ${role} used ${stats.turns} turns, ${stats.usage.inputTokens} input / ${stats.usage.outputTokens} output tokens, edited ${stats.filesEdited.length} files`
+    );
+    if (costUsd !== undefined) {
+      logger.info(`${COST_LABELS[role]} cost: ${formatCost(costUsd)} (est.)`);
     }
   }
 
+  /** Ends an iteration whose agent was stopped from the outside, without counting an attempt. */
+  private async stopIteration(story: UserStory, startSha: string): Promise<void> {
+    if (this.stopRequested === 'interrupt') {
+      this.interruptIteration(story);
+    } else {
+      await this.abortIteration(story, startSha);
+    }
+  }
+
+  private interruptIteration(story: UserStory): void {
+    logger.warn(`Interrupted ${story.id}; its changes are kept for --resume`);
+
+    const iteration = this.stateMachine.getLastIterationForStory(story.id);
+    this.stateMachine.markInterrupted(story.id);
+    if (iteration) {
+      this.events.emit('iteration:interrupted', { iteration, story });
+    }
+  }
+
+  private async abortIteration(story: UserStory, startSha: string): Promise<void> {
+    logger.warn(`Stopped the agent for ${story.id}`);
+
+    if (!this.dryRun) {
+      logger.info('Rolling back changes...');
+      await this.discardChanges(story.id, startSha);
+    }
+
+    const iteration = this.stateMachine.getLastIterationForStory(story.id);
+    this.stateMachine.markRolledBack(story.id);
+    if (iteration) {
+      this.events.emit('iteration:aborted', { iteration, story });
+    }
+  }
+
+  /**
+   * Throws away an iteration's work: resets the main checkout and deletes the
+   * untracked files created since the iteration started, or removes its worktree.
+   */
+  private async discardChanges(storyId: string, startSha: string): Promise<void> {
+    const iteration = this.stateMachine.getLastIterationForStory(storyId);
+    if (iteration?.worktree) {
+      this.gitManager.removeWorktree(iteration.worktree.path, iteration.worktree.branch);
+      return;
+    }
+
+    await this.gitManager.resetToSha(startSha);
+    // Iterations recorded before start trees were have nothing to compare against
+    if (iteration?.startTree) {
+      const removed = this.gitManager.removeUntrackedSince(iteration.startTree);
+      if (removed.length > 0) {
+        logger.debug(`Deleted new untracked files: ${removed.join(', ')}`);
+      }
+    }
+  }
+
+  /**
+   * Squash-merges a worktree's work onto the PRD branch, leaving it staged
+   * for the story commit. Returns false if it conflicts with stories merged
+   * since the worktree was created.
+   */
+  private mergeWorktree(story: UserStory, worktree: Worktree): boolean {
+    const worktreeGit = new GitManager(worktree.path);
+    if (worktreeGit.hasUncommittedChanges()) {
+      worktreeGit.commit(`wip: ${story.id} - ${story.title}`);
+    }
+    return this.gitManager.squashMerge(worktree.branch);
+  }
+
+  /**
+   * Marks a verified story as passing, commits whatever the agent left
+   * uncommitted and records the resulting HEAD as the iteration's end SHA.
+   * Work merged from a worktree is always committed, so the next merge starts
+   * from a clean tree.
+   */
+  private async completeStory(story: UserStory, iterationNum: number): Promise<void> {
+    const worktree = this.stateMachine.getLastIterationForStory(story.id)?.worktree;
+    this.markStoryComplete(story.id);
+
+    if ((this.config.git.autoCommit || worktree) && !this.dryRun) {
+      try {
+        this.commitStory(story, iterationNum);
+      } catch (error) {
+        // Keep the PRD in step with the rollback that follows
+        story.passes = false;
+        this.savePrd();
+        if (worktree) {
+          await this.gitManager.resetToSha('HEAD');
+        }
+        throw error;
+      }
+    }
+
+    this.stateMachine.completeIteration(story.id);
+    if (worktree) {
+      this.gitManager.removeWorktree(worktree.path, worktree.branch);
+    }
+    if (this.currentStoryId === story.id) {
+      this.currentStoryId = null;
+    }
+
+    const iteration = this.stateMachine.getLastIterationForStory(story.id);
+    if (iteration) {
+      this.events.emit('iteration:complete', { iteration, story });
+    }
+    this.events.emit('story:complete', { story });
+  }
+
+  private commitStory(story: UserStory, iterationNum: number): void {
+    if (!this.gitManager.hasUncommittedChanges()) {
+      logger.debug(`Nothing left to commit for ${story.id}`);
+      return;
+    }
+
+    const { git } = this.config;
+    const message = renderTemplate(git.commitMessage, {
+      prd: this.prd,
+      story,
+      iteration: iterationNum,
+    }).trim();
+    const trailers: Record<string, string> = git.trailers
+      ? { 'Gushter-Story': story.id, 'Gushter-Iteration': String(iterationNum) }
+      : {};
+
+    const sha = this.gitManager.commit(message, trailers);
+    this.events.emit('story:commit', { storyId: story.id, sha, message });
+    logger.info(`Committed ${story.id} as ${sha.slice(0, 7)}`);
+  }
+
   private markStoryComplete(storyId: string): void {
     const story = this.prd.userStories.find((s) => s.id === storyId);
     if (story) {
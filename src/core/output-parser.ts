@@ -1,7 +1,15 @@
-import { StructuredOutputSchema, ParsedOutput } from '../types/output.js';
+import {
+  StructuredOutputSchema,
+  ParsedOutput,
+  ReviewOutput,
+  ReviewOutputSchema,
+} from '../types/output.js';
 import { logger } from '../utils/logger.js';
 
 const STRUCTURED_OUTPUT_PATTERN = /```json:gushter-output\s*([\s\S]*?)```/;
+const REVIEW_OUTPUT_PATTERN = /```json:gushter-review\s*([\s\S]*?)```/;
+// Four backticks, so the plan itself can hold code blocks
+const PLAN_OUTPUT_PATTERN = /````markdown:gushter-plan[^\n]*\n([\s\S]*?)````/;
 
 export class OutputParser {
   parse(output: string): ParsedOutput {
@@ -32,6 +40,31 @@ export class OutputParser {
     return result;
   }
 
+  /** Extracts the reviewer's `json:gushter-review` block, or null if it is missing or invalid. */
+  parseReview(output: string): ReviewOutput | null {
+    const jsonMatch = REVIEW_OUTPUT_PATTERN.exec(output);
+    if (!jsonMatch?.[1]) {
+      return null;
+    }
+
+    try {
+      const validated = ReviewOutputSchema.safeParse(JSON.parse(jsonMatch[1].trim()));
+      if (validated.success) {
+        return validated.data;
+      }
+      logger.warn('Review output validation failed:', validated.error.message);
+    } catch (error) {
+      logger.warn(`Failed to parse review output JSON: ${error}`);
+    }
+    return null;
+  }
+
+  /** Extracts the planner's `markdown:gushter-plan` block, or null if it is missing or empty. */
+  parsePlan(output: string): string | null {
+    const plan = PLAN_OUTPUT_PATTERN.exec(output)?.[1]?.trim();
+    return plan ? plan : null;
+  }
+
   isSuccess(parsed: ParsedOutput): boolean {
     if (parsed.structured) {
       return parsed.structured.status === 'success';
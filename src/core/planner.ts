@@ -0,0 +1,148 @@
+import { GushterConfig } from '../config/schema.js';
+import { Iteration } from '../types/state.js';
+import { AiRunOptions, AiRunResult, AiRunner } from './ai-runner.js';
+import { GitManager } from './git-manager.js';
+import { outputParser } from './output-parser.js';
+import { PromptContext, PromptRenderer } from './prompt-renderer.js';
+import { IterationTranscript } from './transcript.js';
+
+export interface StoryPlannerOptions {
+  cwd: string;
+  aiRunner: AiRunner;
+  renderer: PromptRenderer;
+  model?: string;
+}
+
+export interface PlanResult {
+  plan: string | null;
+  // Set when the planner produced no plan, or changed files
+  error?: string;
+  // Files the planner changed, which fails the planning step
+  changedFiles: string[];
+  agentResult: AiRunResult;
+}
+
+export type PlanRunOptions = Pick<AiRunOptions, 'onOutput' | 'onEvent' | 'signal'>;
+
+const DEFAULT_PLAN_PROMPT = `# Plan {{story.id}}: {{story.title}}
+
+You are planning the work on one user story for {{prd.project}} (branch \`{{prd.branchName}}\`). Another agent will implement your plan without seeing this conversation, so be specific: name the files to change, what to add or change in each, and the tests that show each acceptance criterion is met. Read the code as needed, but do not change any files.
+
+{{story.description}}
+
+**Acceptance Criteria:**
+{{story.acceptanceCriteria}}
+{{#previousError}}
+
+## Previous Attempt Failed (retry {{retryCount}})
+
+{{previousError}}
+{{#verificationFailures}}
+
+{{verificationFailures}}
+{{/verificationFailures}}
+{{#reviewFailures}}
+
+The reviewer found these criteria unmet:
+
+{{reviewFailures}}
+{{/reviewFailures}}
+{{/previousError}}
+{{#progress}}
+
+## Progress Log
+
+{{progress}}
+{{/progress}}
+
+## Output
+
+End your response with the plan, fenced by four backticks so it can hold code blocks:
+
+\`\`\`\`markdown:gushter-plan
+1. ...
+\`\`\`\`
+`;
+
+/**
+ * Runs the planner before the implementer. The planner gets the same story
+ * and retry context as the implementer and answers with a plan, which is
+ * saved as `plan.md` in the iteration's transcript.
+ */
+export class StoryPlanner {
+  private cwd: string;
+  private aiRunner: AiRunner;
+  private renderer: PromptRenderer;
+  private model?: string;
+
+  constructor(options: StoryPlannerOptions) {
+    this.cwd = options.cwd;
+    this.aiRunner = options.aiRunner;
+    this.renderer = options.renderer;
+    this.model = options.model;
+  }
+
+  async plan(
+    context: PromptContext,
+    iteration: Iteration,
+    transcript: IterationTranscript,
+    options: PlanRunOptions = {}
+  ): Promise<PlanResult> {
+    const prompt = this.renderer.render(context);
+    transcript.writePlanPrompt(prompt);
+    const git = new GitManager(iteration.worktree?.path ?? this.cwd);
+    const treeBefore = git.snapshotTree();
+
+    const agentResult = await this.aiRunner.run(prompt, {
+      ...options,
+      cwd: iteration.worktree?.path,
+      storyId: context.story.id,
+      role: 'planner',
+      model: this.model,
+      onOutput: (chunk, stream) => {
+        transcript.appendPlanOutput(chunk);
+        options.onOutput?.(chunk, stream);
+      },
+      onEvent: (event) => {
+        transcript.appendPlanEvent(event);
+        options.onEvent?.(event);
+      },
+    });
+
+    // The implementer starts from the tree as it was, so planning may not change it
+    const changedFiles = git.getFilesChangedBetween(treeBefore, git.snapshotTree());
+    if (changedFiles.length > 0 && !agentResult.aborted) {
+      const error = `the planner changed files it must only read: ${changedFiles.join(', ')}`;
+      return { plan: null, error, changedFiles, agentResult };
+    }
+
+    const plan = agentResult.aborted ? null : outputParser.parsePlan(agentResult.output);
+    if (!plan) {
+      const error = agentResult.timeout
+        ? `the planner timed out (${agentResult.timeout} timeout)`
+        : 'the planner gave no markdown:gushter-plan block';
+      return { plan, error, changedFiles, agentResult };
+    }
+
+    transcript.writePlan(plan);
+    return { plan, changedFiles, agentResult };
+  }
+}
+
+export function createStoryPlanner(
+  config: GushterConfig,
+  cwd: string,
+  aiRunner: AiRunner
+): StoryPlanner {
+  return new StoryPlanner({
+    cwd,
+    aiRunner,
+    renderer: new PromptRenderer({
+      cwd,
+      templatePath: config.plan.promptPath,
+      defaultTemplate: DEFAULT_PLAN_PROMPT,
+      progressPath: config.progressPath,
+    }),
+    model: config.plan.model,
+  });
+}
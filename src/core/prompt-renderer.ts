@@ -0,0 +1,165 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { GushterConfig } from '../config/schema.js';
+import { Prd, UserStory } from '../types/prd.js';
+import { Iteration, ReviewFailure, VerificationFailure } from '../types/state.js';
+import { renderTemplate, TemplateContext } from '../utils/template.js';
+
+export interface PromptRendererOptions {
+  cwd: string;
+  // Without a path, `defaultTemplate` is rendered instead
+  templatePath?: string;
+  defaultTemplate?: string;
+  progressPath: string;
+  // Whether Gushter commits verified stories, or the agent has to
+  autoCommit?: boolean;
+}
+
+export interface PromptContext {
+  prd: Prd;
+  story: UserStory;
+  iteration: number;
+  maxIterations: number;
+  retryCount: number;
+  previousAttempt?: Iteration;
+  // Written by the planner for this iteration
+  plan?: string;
+}
+
+// Appended to templates that never mention the story, so the agent still
+// works on the story the orchestrator picked.
+const ASSIGNED_STORY_SECTION = `
+
+## Assigned Story
+
+Work on **{{story.id}}: {{story.title}}** only. Ignore other stories in the PRD.
+
+{{story.description}}
+
+**Acceptance Criteria:**
+{{story.acceptanceCriteria}}
+{{#previousError}}
+
+## Previous Attempt Failed (retry {{retryCount}})
+
+{{previousError}}
+{{#agentError}}
+
+Agent-reported error: {{agentError}}
+{{/agentError}}
+{{#verificationFailures}}
+
+{{verificationFailures}}
+{{/verificationFailures}}
+{{#reviewFailures}}
+
+The reviewer found these criteria unmet:
+
+{{reviewFailures}}
+{{/reviewFailures}}
+{{/previousError}}
+`;
+
+// Appended when there is a plan and the template has no {{plan}} of its own
+const PLAN_SECTION = `
+
+## Plan
+
+A planning step wrote this plan for the story. Follow it, and say in your progress report where you had to depart from it.
+
+{{plan}}
+`;
+
+function formatVerificationFailures(failures: VerificationFailure[]): string {
+  return failures
+    .map((f) => `### ${f.name} (\`${f.command}\`)\n\n\`\`\`\n${f.outputTail}\n\`\`\``)
+    .join('\n\n');
+}
+
+function formatReviewFailures(failures: ReviewFailure[]): string {
+  return failures.map((f) => `- **${f.criterion}**: ${f.reason}`).join('\n');
+}
+
+export class PromptRenderer {
+  private cwd: string;
+  private templatePath?: string;
+  private defaultTemplate: string;
+  private progressPath: string;
+  private autoCommit: boolean;
+
+  constructor(options: PromptRendererOptions) {
+    this.cwd = options.cwd;
+    this.templatePath = options.templatePath;
+    this.defaultTemplate = options.defaultTemplate ?? '';
+    this.progressPath = options.progressPath;
+    this.autoCommit = options.autoCommit ?? true;
+  }
+
+  render(context: PromptContext): string {
+    let template = this.loadTemplate();
+    if (!template.includes('{{story.')) {
+      template += ASSIGNED_STORY_SECTION;
+    }
+    if (context.plan && !template.includes('{{plan}}')) {
+      template += PLAN_SECTION;
+    }
+    return renderTemplate(template, this.buildContext(context));
+  }
+
+  private loadTemplate(): string {
+    if (!this.templatePath) {
+      return this.defaultTemplate;
+    }
+
+    const absolutePath = resolve(this.cwd, this.templatePath);
+    try {
+      return readFileSync(absolutePath, 'utf-8');
+    } catch {
+      throw new Error(`Failed to read prompt file: ${absolutePath}`);
+    }
+  }
+
+  private loadProgress(): string {
+    const absolutePath = resolve(this.cwd, this.progressPath);
+    if (!existsSync(absolutePath)) {
+      return '';
+    }
+    return readFileSync(absolutePath, 'utf-8');
+  }
+
+  private buildContext(context: PromptContext): TemplateContext {
+    const { prd, story, previousAttempt } = context;
+    return {
+      prd: {
+        project: prd.project,
+        branchName: prd.branchName,
+        description: prd.description,
+      },
+      story,
+      iteration: context.iteration,
+      maxIterations: context.maxIterations,
+      retryCount: context.retryCount,
+      previousError: previousAttempt?.error ?? '',
+      agentError:
+        previousAttempt?.agentError !== previousAttempt?.error
+          ? previousAttempt?.agentError ?? ''
+          : '',
+      verificationFailures: formatVerificationFailures(
+        previousAttempt?.verificationFailures ?? []
+      ),
+      reviewFailures: formatReviewFailures(previousAttempt?.reviewFailures ?? []),
+      plan: context.plan ?? '',
+      progress: this.loadProgress(),
+      autoCommit: this.autoCommit,
+    };
+  }
+}
+
+export function createPromptRenderer(config: GushterConfig, cwd: string): PromptRenderer {
+  return new PromptRenderer({
+    cwd,
+    templatePath: config.promptTemplatePath ?? config.claudeMdPath,
+    progressPath: config.progressPath,
+    autoCommit: config.git.autoCommit,
+  });
+}
@@ -0,0 +1,214 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { GushterConfig } from '../config/schema.js';
+import { ReviewOutput } from '../types/output.js';
+import { Prd, UserStory } from '../types/prd.js';
+import { Iteration, ReviewFailure } from '../types/state.js';
+import { renderTemplate } from '../utils/template.js';
+import { AiRunOptions, AiRunResult, AiRunner } from './ai-runner.js';
+import { GitManager } from './git-manager.js';
+import { outputParser } from './output-parser.js';
+import { IterationTranscript } from './transcript.js';
+
+export interface StoryReviewerOptions {
+  cwd: string;
+  aiRunner: AiRunner;
+  promptPath?: string;
+  model?: string;
+  maxDiffLines: number;
+}
+
+export interface ReviewResult {
+  passed: boolean;
+  // Unmet criteria, including any the reviewer gave no verdict for
+  failures: ReviewFailure[];
+  // Set when the review itself produced no verdict, or changed files
+  error?: string;
+  // Files the reviewer changed, which fails the review
+  changedFiles: string[];
+  review: ReviewOutput | null;
+  agentResult: AiRunResult;
+}
+
+export type ReviewRunOptions = Pick<AiRunOptions, 'onOutput' | 'onEvent' | 'signal'>;
+
+const DEFAULT_REVIEW_PROMPT = `# Review {{story.id}}: {{story.title}}
+
+Another agent implemented this story for {{prd.project}}, and its changes pass the project's checks. Decide whether they meet each acceptance criterion. Read the code as needed, but do not change any files.
+
+{{story.description}}
+
+## Acceptance Criteria
+
+{{criteria}}
+
+## Changes
+
+{{files}}
+
+\`\`\`diff
+{{diff}}
+\`\`\`
+{{#omittedLines}}
+
+{{omittedLines}} more lines of the diff are not shown; read the changed files for the rest.
+{{/omittedLines}}
+{{#plan}}
+
+## Plan
+
+The implementer was asked to follow this plan. Judge the changes against the criteria, not the plan.
+
+{{plan}}
+{{/plan}}
+
+## Verdict
+
+Judge only the criteria above, not style or scope. End your response with one verdict per criterion, in the order listed:
+
+\`\`\`json:gushter-review
+{
+  "storyId": "{{story.id}}",
+  "criteria": [
+    { "criterion": "<the criterion>", "met": true, "reason": "<what in the changes meets it, or what is missing>" }
+  ],
+  "summary": "<one or two sentences>"
+}
+\`\`\`
+`;
+
+/**
+ * Matches the reviewer's verdicts to the story's criteria by position. A
+ * criterion without a verdict counts as unmet, so a partial review cannot
+ * pass a story.
+ */
+export function findUnmetCriteria(criteria: string[], review: ReviewOutput): ReviewFailure[] {
+  return criteria.flatMap((criterion, index) => {
+    const verdict = review.criteria[index];
+    if (!verdict) {
+      return [{ criterion, reason: 'The reviewer gave no verdict' }];
+    }
+    return verdict.met ? [] : [{ criterion, reason: verdict.reason || 'Not met' }];
+  });
+}
+
+/**
+ * Asks a second agent run whether a verified story's changes meet its
+ * acceptance criteria. The reviewer sees the story and the diff since the
+ * iteration started, and answers in a `json:gushter-review` block.
+ */
+export class StoryReviewer {
+  private cwd: string;
+  private aiRunner: AiRunner;
+  private promptPath?: string;
+  private model?: string;
+  private maxDiffLines: number;
+
+  constructor(options: StoryReviewerOptions) {
+    this.cwd = options.cwd;
+    this.aiRunner = options.aiRunner;
+    this.promptPath = options.promptPath;
+    this.model = options.model;
+    this.maxDiffLines = options.maxDiffLines;
+  }
+
+  async review(
+    prd: Prd,
+    story: UserStory,
+    iteration: Iteration,
+    transcript: IterationTranscript,
+    options: ReviewRunOptions = {}
+  ): Promise<ReviewResult> {
+    const cwd = iteration.worktree?.path ?? this.cwd;
+    const git = new GitManager(cwd);
+    const prompt = this.render(prd, story, git, iteration.startSha, transcript.readPlan());
+    transcript.writeReviewPrompt(prompt);
+    const treeBefore = git.snapshotTree();
+
+    const agentResult = await this.aiRunner.run(prompt, {
+      ...options,
+      cwd: iteration.worktree?.path,
+      storyId: story.id,
+      role: 'reviewer',
+      model: this.model,
+      onOutput: (chunk, stream) => {
+        transcript.appendReviewOutput(chunk);
+        options.onOutput?.(chunk, stream);
+      },
+    });
+
+    // A reviewer killed mid-run gives no verdict to trust
+    const stopped = agentResult.aborted || agentResult.timeout !== undefined;
+    const review = stopped ? null : outputParser.parseReview(agentResult.output);
+    transcript.writeReview(review);
+
+    // What was verified is what gets committed, so a review may not change it
+    const changedFiles = git.getFilesChangedBetween(treeBefore, git.snapshotTree());
+    if (changedFiles.length > 0 && !agentResult.aborted) {
+      const error = `the reviewer changed files it must only read: ${changedFiles.join(', ')}`;
+      return { passed: false, failures: [], error, changedFiles, review, agentResult };
+    }
+
+    if (!review) {
+      const error = agentResult.timeout
+        ? `the reviewer timed out (${agentResult.timeout} timeout)`
+        : 'the reviewer gave no json:gushter-review verdict';
+      return { passed: false, failures: [], error, changedFiles, review, agentResult };
+    }
+
+    const failures = findUnmetCriteria(story.acceptanceCriteria, review);
+    return { passed: failures.length === 0, failures, changedFiles, review, agentResult };
+  }
+
+  private render(
+    prd: Prd,
+    story: UserStory,
+    git: GitManager,
+    startSha: string,
+    plan: string | null
+  ): string {
+    const lines = git.getDiffSince(startSha).split('\n');
+    const omittedLines = Math.max(lines.length - this.maxDiffLines, 0);
+
+    return renderTemplate(this.loadTemplate(), {
+      prd: {
+        project: prd.project,
+        branchName: prd.branchName,
+        description: prd.description,
+      },
+      story,
+      criteria: story.acceptanceCriteria.map((c, index) => `${index + 1}. ${c}`).join('\n'),
+      files: git.getFilesChangedSince(startSha),
+      diff: lines.slice(0, this.maxDiffLines).join('\n'),
+      omittedLines,
+      plan: plan ?? '',
+    });
+  }
+
+  private loadTemplate(): string {
+    if (!this.promptPath) {
+      return DEFAULT_REVIEW_PROMPT;
+    }
+
+    const absolutePath = resolve(this.cwd, this.promptPath);
+    try {
+      return readFileSync(absolutePath, 'utf-8');
+    } catch {
+      throw new Error(`Failed to read review prompt file: ${absolutePath}`);
+    }
+  }
+}
+
+export function createStoryReviewer(
+  config: GushterConfig,
+  cwd: string,
+  aiRunner: AiRunner
+): StoryReviewer {
+  return new StoryReviewer({
+    cwd,
+    aiRunner,
+    promptPath: config.review.promptPath,
+    model: config.review.model,
+    maxDiffLines: config.review.maxDiffLines,
+  });
+}
@@ -0,0 +1,277 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { JournalEvent, JournalEventSchema } from '../types/journal.js';
+import {
+  GushterState,
+  Iteration,
+  UsageTotals,
+  createEmptyTotals,
+  createInitialState,
+  listIterations,
+} from '../types/state.js';
+import { addTokenUsage } from './usage.js';
+import { logger } from '../utils/logger.js';
+
+const STATE_DIR = '.gushter';
+const JOURNAL_FILE = 'events.jsonl';
+
+/**
+ * The append-only record of every state transition in `.gushter/events.jsonl`,
+ * one JSON event per line. Replaying it rebuilds `state.json`.
+ */
+export class StateJournal {
+  readonly path: string;
+
+  constructor(cwd: string) {
+    this.path = resolve(cwd, STATE_DIR, JOURNAL_FILE);
+  }
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  append(event: JournalEvent): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, `${JSON.stringify(event)}\n`);
+  }
+
+  /** Journals a snapshot of `state` if there is no journal yet, so replay starts from it. */
+  ensureStarted(state: GushterState): void {
+    if (!this.exists()) {
+      this.append({ type: 'state:snapshot', at: state.lastUpdatedAt, state });
+    }
+  }
+
+  read(): JournalEvent[] {
+    if (!this.exists()) {
+      return [];
+    }
+
+    const lines = readFileSync(this.path, 'utf-8').split('\n');
+    const events: JournalEvent[] = [];
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      try {
+        events.push(JournalEventSchema.parse(JSON.parse(line)));
+      } catch (error) {
+        // A crash during an append can cut the last line short
+        if (index === lines.length - 1) {
+          logger.warn(`Ignoring incomplete last line of ${this.path}`);
+          return;
+        }
+        throw new Error(`Invalid event on line ${index + 1} of ${this.path}: ${error}`);
+      }
+    });
+    return events;
+  }
+}
+
+/** Folds the journal into the state it describes, or null if it is empty. */
+export function replayJournal(events: JournalEvent[]): GushterState | null {
+  let state: GushterState | undefined;
+  for (const event of events) {
+    state = applyJournalEvent(state, event);
+  }
+  return state ?? null;
+}
+
+/**
+ * Applies one event to the state, in place where it can. This is the only
+ * code that changes state, so a live run and a replay agree.
+ */
+export function applyJournalEvent(
+  state: GushterState | undefined,
+  event: JournalEvent
+): GushterState {
+  if (event.type === 'run:started') {
+    return {
+      ...createInitialState(event.branchName, event.maxIterations),
+      startedAt: event.at,
+      lastUpdatedAt: event.at,
+    };
+  }
+  if (event.type === 'state:snapshot') {
+    return structuredClone(event.state);
+  }
+  if (!state) {
+    throw new Error(`Journal event ${event.type} at ${event.at} comes before any run started`);
+  }
+
+  state.lastUpdatedAt = event.at;
+
+  switch (event.type) {
+    case 'run:resumed':
+      state.maxIterations = event.maxIterations;
+      break;
+
+    case 'iteration:started': {
+      const attempts = (state.stories[event.storyId] ??= { attempts: [] }).attempts;
+      // Attempt counts carry over unless the earlier attempts were rolled back
+      const previous = [...attempts].reverse().find((i) => i.status !== 'rolled_back');
+      attempts.push({
+        storyId: event.storyId,
+        number: state.currentIteration + 1,
+        status: 'in_progress',
+        startSha: event.startSha,
+        startTree: event.startTree,
+        retryCount: previous?.retryCount ?? 0,
+        timeoutCount: previous?.timeoutCount ?? 0,
+        startedAt: event.at,
+        transcriptDir: event.transcriptDir,
+        worktree: event.worktree,
+      });
+      state.currentIteration++;
+      break;
+    }
+
+    case 'iteration:stats': {
+      const iteration = findRunningIteration(state, event.storyId);
+      if (!iteration) {
+        break;
+      }
+      if (event.role === 'planner') {
+        iteration.planStats = event.stats;
+      } else if (event.role === 'reviewer') {
+        iteration.reviewStats = event.stats;
+      } else {
+        iteration.agentStats = event.stats;
+      }
+      // Every role's run adds to the iteration's cost
+      if (event.costUsd !== undefined) {
+        iteration.costUsd = (iteration.costUsd ?? 0) + event.costUsd;
+      }
+      for (const totals of totalsFor(state, event.storyId)) {
+        addTokenUsage(totals.tokens, event.stats.usage);
+        totals.costUsd += event.costUsd ?? 0;
+      }
+      break;
+    }
+
+    case 'iteration:completed': {
+      const iteration = findRunningIteration(state, event.storyId);
+      if (iteration) {
+        iteration.status = 'completed';
+        iteration.endSha = event.endSha;
+        finishIteration(state, iteration, event.at);
+      }
+      break;
+    }
+
+    case 'iteration:failed': {
+      const iteration = findRunningIteration(state, event.storyId);
+      if (!iteration) {
+        break;
+      }
+      // Timeouts are counted separately from other failures
+      const attempts =
+        event.reason === 'timeout' ? ++iteration.timeoutCount : ++iteration.retryCount;
+      iteration.error = event.error;
+      iteration.failureReason = event.reason;
+      iteration.agentError = event.agentError;
+      iteration.verificationFailures = event.verificationFailures;
+      iteration.reviewFailures = event.reviewFailures;
+      finishIteration(state, iteration, event.at);
+
+      if (attempts >= event.maxAttempts) {
+        iteration.status = 'blocked';
+        state.blockedStories.push(event.storyId);
+      } else {
+        iteration.status = 'failed';
+      }
+      break;
+    }
+
+    case 'iteration:interrupted': {
+      const iteration = findRunningIteration(state, event.storyId);
+      if (iteration) {
+        iteration.status = 'interrupted';
+        iteration.error = 'Interrupted';
+      }
+      break;
+    }
+
+    case 'iteration:reopened': {
+      const iteration = state.stories[event.storyId]?.attempts.at(-1);
+      if (iteration?.status === 'interrupted') {
+        iteration.status = 'in_progress';
+        iteration.error = undefined;
+      }
+      break;
+    }
+
+    case 'iteration:rolled_back': {
+      const iteration = findRunningIteration(state, event.storyId);
+      if (iteration) {
+        iteration.status = 'rolled_back';
+        state.blockedStories = state.blockedStories.filter((s) => s !== event.storyId);
+      }
+      break;
+    }
+
+    case 'story:unblocked': {
+      state.blockedStories = state.blockedStories.filter((s) => s !== event.storyId);
+      // A blocked story gets a fresh set of attempts
+      const iteration = state.stories[event.storyId]?.attempts.at(-1);
+      if (iteration?.status === 'blocked') {
+        iteration.status = 'failed';
+        iteration.retryCount = 0;
+        iteration.timeoutCount = 0;
+      }
+      break;
+    }
+
+    case 'rollback': {
+      const history = listIterations(state);
+      if (event.storyId === undefined) {
+        // Keep the attempts as history; rolled back ones no longer count toward retries
+        for (const iteration of history) {
+          iteration.status = 'rolled_back';
+        }
+        state.currentIteration = 0;
+        state.blockedStories = [];
+        break;
+      }
+
+      // The story's earliest attempt still in effect, and everything after it
+      const index = history.findIndex(
+        (i) => i.storyId === event.storyId && i.status !== 'rolled_back'
+      );
+      if (index >= 0) {
+        for (const iteration of history.slice(index)) {
+          iteration.status = 'rolled_back';
+        }
+      }
+      state.blockedStories = state.blockedStories.filter((s) => s !== event.storyId);
+      break;
+    }
+  }
+
+  return state;
+}
+
+function findRunningIteration(state: GushterState, storyId: string): Iteration | undefined {
+  const iteration = state.stories[storyId]?.attempts.at(-1);
+  return iteration?.status === 'in_progress' ? iteration : undefined;
+}
+
+// Totals survive the iteration being replaced by a retry
+function totalsFor(state: GushterState, storyId: string): UsageTotals[] {
+  const stories = state.usage.stories;
+  stories[storyId] ??= createEmptyTotals();
+  return [state.usage.run, stories[storyId]];
+}
+
+function finishIteration(state: GushterState, iteration: Iteration, at: string): void {
+  iteration.completedAt = at;
+  if (iteration.startedAt) {
+    iteration.durationMs = new Date(at).getTime() - new Date(iteration.startedAt).getTime();
+  }
+
+  for (const totals of totalsFor(state, iteration.storyId)) {
+    totals.iterations++;
+    totals.durationMs += iteration.durationMs ?? 0;
+  }
+}
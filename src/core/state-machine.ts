@@ -1,62 +1,87 @@
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'node:fs';
-import { resolve, dirname } from 'node:path';
 import {
   GushterState,
-  GushterStateSchema,
   Iteration,
   IterationStatus,
-  createInitialState,
+  Worktree,
+  AgentRole,
+  AgentStats,
+  FailureReason,
+  ReviewFailure,
+  UsageTotals,
+  VerificationFailure,
+  createEmptyTotals,
+  listIterations,
 } from '../types/state.js';
+import { JournalEvent } from '../types/journal.js';
+import { StateStore } from './state-store.js';
+import { StateJournal, applyJournalEvent } from './state-journal.js';
 import { GitManager } from './git-manager.js';
 import { logger } from '../utils/logger.js';
 
-const STATE_DIR = '.gushter';
-const STATE_FILE = 'state.json';
-
 export interface StateMachineOptions {
   cwd: string;
   maxIterations: number;
   branchName: string;
+  // Continue the saved run on this branch instead of starting a fresh one
+  resume?: boolean;
+  // Defaults to the store for `cwd`
+  store?: StateStore;
+}
+
+export interface FailureDetails {
+  reason?: FailureReason;
+  agentError?: string;
+  verificationFailures?: VerificationFailure[];
+  reviewFailures?: ReviewFailure[];
 }
 
+// Omit applied to each member of the union, so every event keeps its own fields
+type JournalEventInput<E = JournalEvent> = E extends JournalEvent ? Omit<E, 'at'> : never;
+
 export class StateMachine {
-  private state: GushterState;
-  private statePath: string;
+  private state!: GushterState;
+  private store: StateStore;
+  private journal: StateJournal;
   private gitManager: GitManager;
 
   constructor(options: StateMachineOptions) {
-    this.statePath = resolve(options.cwd, STATE_DIR, STATE_FILE);
+    this.store = options.store ?? new StateStore(options.cwd);
+    this.journal = new StateJournal(options.cwd);
     this.gitManager = new GitManager(options.cwd);
 
-    const existingState = this.loadState();
+    // Fails loudly rather than discarding history it cannot read
+    const existingState = this.store.load();
 
-    if (existingState && existingState.branchName === options.branchName) {
+    const sameBranch = existingState?.branchName === options.branchName;
+    if (existingState && sameBranch && options.resume) {
+      this.journal.ensureStarted(existingState);
       this.state = existingState;
+      this.record({ type: 'run:resumed', maxIterations: options.maxIterations });
     } else {
-      this.state = createInitialState(options.branchName, options.maxIterations);
-    }
-
-    this.state.maxIterations = options.maxIterations;
-  }
-
-  private loadState(): GushterState | null {
-    if (!existsSync(this.statePath)) {
-      return null;
-    }
-
-    try {
-      const content = readFileSync(this.statePath, 'utf-8');
-      return GushterStateSchema.parse(JSON.parse(content));
-    } catch (error) {
-      logger.warn(`Failed to load state: ${error}`);
-      return null;
+      if (existingState && sameBranch) {
+        const interrupted = listIterations(existingState).filter(
+          (i) => i.status === 'interrupted' || i.status === 'in_progress'
+        );
+        if (interrupted.length > 0) {
+          logger.warn(
+            `The previous run was interrupted during ${interrupted.map((i) => i.storyId).join(', ')}; starting a fresh run. Use --resume to recover it.`
+          );
+        }
+      }
+      this.record({
+        type: 'run:started',
+        branchName: options.branchName,
+        maxIterations: options.maxIterations,
+      });
     }
   }
 
-  private saveState(): void {
-    mkdirSync(dirname(this.statePath), { recursive: true });
-    this.state.lastUpdatedAt = new Date().toISOString();
-    writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+  /** Journals a transition, applies it and saves the result. */
+  private record(input: JournalEventInput): void {
+    const event = { ...input, at: new Date().toISOString() } as JournalEvent;
+    this.journal.append(event);
+    this.state = applyJournalEvent(this.state, event);
+    this.store.save(this.state);
   }
 
   getState(): GushterState {
@@ -67,8 +92,24 @@ export class StateMachine {
     return this.state.currentIteration;
   }
 
+  /** Every attempt of every story, in the order they started. */
   getIterationHistory(): Iteration[] {
-    return [...this.state.iterations];
+    return listIterations(this.state);
+  }
+
+  /** A story's attempts, oldest first. */
+  getAttempts(storyId: string): Iteration[] {
+    return [...(this.state.stories[storyId]?.attempts ?? [])];
+  }
+
+  /**
+   * Iterations a previous process did not finish: stopped by a signal, or
+   * still `in_progress` because the process was killed.
+   */
+  getInterruptedIterations(): Iteration[] {
+    return listIterations(this.state).filter(
+      (i) => i.status === 'interrupted' || i.status === 'in_progress'
+    );
   }
 
   getBlockedStories(): string[] {
@@ -83,112 +124,142 @@ export class StateMachine {
     return this.state.currentIteration < this.state.maxIterations;
   }
 
-  startIteration(storyId: string): Iteration {
-    const startSha = this.gitManager.getCurrentSha();
-    const existingIteration = this.state.iterations.find(
-      (i) => i.storyId === storyId && i.status !== 'rolled_back'
-    );
-
-    const retryCount = existingIteration?.retryCount ?? 0;
-
-    const iteration: Iteration = {
+  /** Starts an iteration in the main checkout, or in `worktree` when running in parallel. */
+  startIteration(storyId: string, transcriptDir?: string, worktree?: Worktree): Iteration {
+    const startSha = worktree
+      ? new GitManager(worktree.path).getCurrentSha()
+      : this.gitManager.getCurrentSha();
+    // A worktree is removed as a whole, so only the main checkout needs its files recorded
+    const startTree = worktree ? undefined : this.gitManager.snapshotTree();
+    this.record({
+      type: 'iteration:started',
       storyId,
-      status: 'in_progress',
       startSha,
-      retryCount,
-      startedAt: new Date().toISOString(),
-    };
+      startTree,
+      transcriptDir,
+      worktree,
+    });
 
-    // Remove any existing non-rolled-back iteration for this story
-    this.state.iterations = this.state.iterations.filter(
-      (i) => i.storyId !== storyId || i.status === 'rolled_back'
-    );
+    const iteration = this.requireIteration(storyId);
+    logger.debug(`Started iteration for ${storyId} (retry ${iteration.retryCount})`);
+    return iteration;
+  }
 
-    this.state.iterations.push(iteration);
-    this.state.currentIteration++;
-    this.saveState();
+  getRunTotals(): UsageTotals {
+    return this.state.usage.run;
+  }
 
-    logger.debug(`Started iteration for ${storyId} (retry ${retryCount})`);
-    return iteration;
+  getStoryTotals(storyId: string): UsageTotals {
+    return this.state.usage.stories[storyId] ?? createEmptyTotals();
   }
 
-  completeIteration(storyId: string): void {
-    const iteration = this.findIteration(storyId);
-    if (!iteration) {
-      throw new Error(`No iteration found for story: ${storyId}`);
-    }
+  recordAgentStats(
+    storyId: string,
+    stats: AgentStats,
+    costUsd?: number,
+    role: AgentRole = 'implementer'
+  ): void {
+    this.requireIteration(storyId);
+    this.record({
+      type: 'iteration:stats',
+      storyId,
+      stats,
+      costUsd,
+      role: role === 'implementer' ? undefined : role,
+    });
+  }
 
-    iteration.status = 'completed';
-    iteration.endSha = this.gitManager.getCurrentSha();
-    iteration.completedAt = new Date().toISOString();
-    this.saveState();
+  completeIteration(storyId: string): void {
+    this.requireIteration(storyId);
+    this.record({
+      type: 'iteration:completed',
+      storyId,
+      endSha: this.gitManager.getCurrentSha(),
+    });
 
     logger.debug(`Completed iteration for ${storyId}`);
   }
 
-  failIteration(storyId: string, error: string, maxRetries: number): IterationStatus {
-    const iteration = this.findIteration(storyId);
-    if (!iteration) {
-      throw new Error(`No iteration found for story: ${storyId}`);
+  /**
+   * Records a failed attempt. Timeouts are counted separately from other
+   * failures; `maxAttempts` is the limit for the failure's own class.
+   */
+  failIteration(
+    storyId: string,
+    error: string,
+    maxAttempts: number,
+    details: FailureDetails = {}
+  ): IterationStatus {
+    const iteration = this.requireIteration(storyId);
+    const reason = details.reason ?? 'error';
+    this.record({
+      type: 'iteration:failed',
+      storyId,
+      error,
+      reason,
+      maxAttempts,
+      agentError: details.agentError,
+      verificationFailures: details.verificationFailures,
+      reviewFailures: details.reviewFailures,
+    });
+
+    if (iteration.status === 'blocked') {
+      const kind = reason === 'timeout' ? 'timeouts' : 'retries';
+      logger.warn(`Story ${storyId} blocked after ${maxAttempts} ${kind}`);
+    } else {
+      const attempts = reason === 'timeout' ? iteration.timeoutCount : iteration.retryCount;
+      logger.debug(`Iteration failed for ${storyId} (${reason}, attempt ${attempts})`);
     }
+    return iteration.status;
+  }
 
-    iteration.retryCount++;
-    iteration.error = error;
-    iteration.completedAt = new Date().toISOString();
-
-    if (iteration.retryCount >= maxRetries) {
-      iteration.status = 'blocked';
-      this.state.blockedStories.push(storyId);
-      logger.warn(`Story ${storyId} blocked after ${maxRetries} retries`);
-    } else {
-      iteration.status = 'failed';
-      logger.debug(`Iteration failed for ${storyId} (attempt ${iteration.retryCount})`);
+  /** Marks the running iteration as stopped, keeping its changes for `--resume`. */
+  markInterrupted(storyId: string): void {
+    if (this.findIteration(storyId)) {
+      this.record({ type: 'iteration:interrupted', storyId });
     }
+  }
 
-    this.saveState();
-    return iteration.status;
+  /** Puts an interrupted iteration back in progress so it can be finished. */
+  reopenIteration(storyId: string): void {
+    if (this.getLastIterationForStory(storyId)?.status === 'interrupted') {
+      this.record({ type: 'iteration:reopened', storyId });
+    }
   }
 
   markRolledBack(storyId: string): void {
-    const iteration = this.findIteration(storyId);
-    if (iteration) {
-      iteration.status = 'rolled_back';
-      this.state.blockedStories = this.state.blockedStories.filter(
-        (s) => s !== storyId
-      );
-      this.saveState();
+    if (this.findIteration(storyId)) {
+      this.record({ type: 'iteration:rolled_back', storyId });
     }
   }
 
+  /** Unblocks a story and gives it a fresh set of attempts. */
   unblockStory(storyId: string): void {
-    this.state.blockedStories = this.state.blockedStories.filter(
-      (s) => s !== storyId
-    );
-    this.saveState();
+    this.record({ type: 'story:unblocked', storyId });
+  }
+
+  private requireIteration(storyId: string): Iteration {
+    const iteration = this.findIteration(storyId);
+    if (!iteration) {
+      throw new Error(`No iteration found for story: ${storyId}`);
+    }
+    return iteration;
   }
 
   private findIteration(storyId: string): Iteration | undefined {
-    return this.state.iterations.find(
-      (i) => i.storyId === storyId && i.status === 'in_progress'
-    );
+    const iteration = this.getLastIterationForStory(storyId);
+    return iteration?.status === 'in_progress' ? iteration : undefined;
   }
 
   getLastIterationForStory(storyId: string): Iteration | undefined {
-    const iterations = this.state.iterations
-      .filter((i) => i.storyId === storyId)
-      .sort((a, b) => {
-        const aTime = a.startedAt ? new Date(a.startedAt).getTime() : 0;
-        const bTime = b.startedAt ? new Date(b.startedAt).getTime() : 0;
-        return bTime - aTime;
-      });
-    return iterations[0];
+    return this.state.stories[storyId]?.attempts.at(-1);
   }
 
   reset(): void {
-    this.state = createInitialState(
-      this.state.branchName,
-      this.state.maxIterations
-    );
-    this.saveState();
+    this.record({
+      type: 'run:started',
+      branchName: this.state.branchName,
+      maxIterations: this.state.maxIterations,
+    });
   }
 }
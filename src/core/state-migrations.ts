@@ -0,0 +1,72 @@
+import { GushterState, GushterStateSchema } from '../types/state.js';
+
+export const CURRENT_STATE_VERSION = 2;
+
+type RawState = Record<string, unknown>;
+
+/** Thrown when a state file cannot be read or brought up to the current version. */
+export class StateMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateMigrationError';
+  }
+}
+
+// Each entry upgrades a state file from its key's version to the next one
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // Version 1 kept only each story's latest attempt in a flat `iterations` list
+  1: ({ iterations, ...rest }) => {
+    const stories: Record<string, { attempts: unknown[] }> = {};
+    for (const iteration of (iterations ?? []) as Array<{ storyId?: unknown }>) {
+      const storyId = String(iteration.storyId);
+      (stories[storyId] ??= { attempts: [] }).attempts.push(iteration);
+    }
+    return { ...rest, stories };
+  },
+};
+
+export interface MigratedState {
+  state: GushterState;
+  fromVersion: number;
+}
+
+/**
+ * Upgrades saved state to the current version one step at a time and
+ * validates the result. Throws instead of guessing when it cannot.
+ */
+export function migrateState(raw: unknown): MigratedState {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new StateMigrationError('State is not a JSON object');
+  }
+
+  const fromVersion = (raw as RawState).version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new StateMigrationError(`State has no valid version: ${JSON.stringify(fromVersion)}`);
+  }
+  if (fromVersion > CURRENT_STATE_VERSION) {
+    throw new StateMigrationError(
+      `State version ${fromVersion} is newer than this Gushter supports (${CURRENT_STATE_VERSION}); upgrade Gushter`
+    );
+  }
+
+  let data = raw as RawState;
+  for (let version = fromVersion; version < CURRENT_STATE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new StateMigrationError(`No migration from state version ${version}`);
+    }
+    data = { ...migrate(data), version: version + 1 };
+  }
+
+  const result = GushterStateSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    const migrated = fromVersion === CURRENT_STATE_VERSION ? '' : ` after migrating from version ${fromVersion}`;
+    throw new StateMigrationError(`Invalid state${migrated}: ${issues}`);
+  }
+
+  return { state: result.data, fromVersion };
+}
+
@@ -0,0 +1,209 @@
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { hostname } from 'node:os';
+import { basename, dirname, resolve } from 'node:path';
+import { GushterState, RunLock, RunLockSchema } from '../types/state.js';
+import {
+  CURRENT_STATE_VERSION,
+  MigratedState,
+  StateMigrationError,
+  migrateState,
+} from './state-migrations.js';
+import { StateJournal } from './state-journal.js';
+import { createRunId } from './transcript.js';
+import { logger } from '../utils/logger.js';
+
+const STATE_DIR = '.gushter';
+const STATE_FILE = 'state.json';
+const LOCK_FILE = 'run.lock';
+
+// Each save shifts the previous file into state.json.1, .2, ... up to this many
+const DEFAULT_BACKUPS = 3;
+
+export interface StateStoreOptions {
+  backups?: number;
+}
+
+/** Thrown when another live process holds the run lock. */
+export class StateLockError extends Error {
+  readonly lock: RunLock;
+
+  constructor(lock: RunLock) {
+    super(
+      `Another run is in progress (PID ${lock.pid} on ${lock.hostname}, started ${lock.startedAt})`
+    );
+    this.name = 'StateLockError';
+    this.lock = lock;
+  }
+}
+
+/**
+ * The one place `.gushter/state.json` is read and written. Writes go through
+ * a temp file and a rename, so a crash leaves the old file or the new one,
+ * never half of each.
+ */
+export class StateStore {
+  readonly statePath: string;
+  private cwd: string;
+  private lockPath: string;
+  private backups: number;
+  private ownsLock = false;
+
+  constructor(cwd: string, options: StateStoreOptions = {}) {
+    this.cwd = cwd;
+    this.statePath = resolve(cwd, STATE_DIR, STATE_FILE);
+    this.lockPath = resolve(cwd, STATE_DIR, LOCK_FILE);
+    this.backups = options.backups ?? DEFAULT_BACKUPS;
+  }
+
+  /**
+   * Reads the state, or returns null if there is none. An older file is
+   * copied to `state.v<n>.<timestamp>.json` before being rewritten in the
+   * current format.
+   */
+  load(): GushterState | null {
+    if (!existsSync(this.statePath)) {
+      return null;
+    }
+
+    let migrated: MigratedState;
+    try {
+      migrated = migrateState(JSON.parse(readFileSync(this.statePath, 'utf-8')));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      const remedy = new StateJournal(this.cwd).exists()
+        ? 'Rebuild it with gushter journal --rebuild, or move it aside to start a new run.'
+        : 'Move the file aside to start a new run.';
+      throw new StateMigrationError(`Cannot load ${this.statePath}: ${reason}. ${remedy}`);
+    }
+
+    const { state, fromVersion } = migrated;
+    if (fromVersion < CURRENT_STATE_VERSION) {
+      const name = basename(this.statePath, '.json');
+      const backupPath = resolve(
+        dirname(this.statePath),
+        `${name}.v${fromVersion}.${createRunId()}.json`
+      );
+      copyFileSync(this.statePath, backupPath);
+      this.save(state);
+      logger.info(
+        `Migrated state from version ${fromVersion} to ${CURRENT_STATE_VERSION}; the old file is at ${backupPath}`
+      );
+    }
+
+    return state;
+  }
+
+  save(state: GushterState): void {
+    mkdirSync(dirname(this.statePath), { recursive: true });
+    const tempPath = `${this.statePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(state, null, 2));
+    this.rotateBackups();
+    renameSync(tempPath, this.statePath);
+  }
+
+  private rotateBackups(): void {
+    if (this.backups < 1 || !existsSync(this.statePath)) {
+      return;
+    }
+
+    for (let index = this.backups - 1; index >= 1; index--) {
+      const backupPath = `${this.statePath}.${index}`;
+      if (existsSync(backupPath)) {
+        renameSync(backupPath, `${this.statePath}.${index + 1}`);
+      }
+    }
+    // Copy rather than move, so the state file exists until the rename replaces it
+    copyFileSync(this.statePath, `${this.statePath}.1`);
+  }
+
+  /** The lock held by a live run, if any. Stale locks are ignored. */
+  readLock(): RunLock | null {
+    const lock = this.readLockFile();
+    return lock && !isStale(lock) ? lock : null;
+  }
+
+  /**
+   * Takes the run lock for this process, replacing a stale one left by a
+   * process that died. Throws StateLockError while another run holds it.
+   */
+  acquireLock(): void {
+    mkdirSync(dirname(this.lockPath), { recursive: true });
+    const lock: RunLock = {
+      pid: process.pid,
+      hostname: hostname(),
+      startedAt: new Date().toISOString(),
+    };
+
+    // A second try is only needed after removing a stale lock
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        writeFileSync(this.lockPath, JSON.stringify(lock, null, 2), { flag: 'wx' });
+        this.ownsLock = true;
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const existing = this.readLockFile();
+      if (existing && !isStale(existing)) {
+        throw new StateLockError(existing);
+      }
+      logger.warn(
+        existing
+          ? `Removing stale run lock of PID ${existing.pid}, which is no longer running`
+          : `Removing unreadable run lock ${this.lockPath}`
+      );
+      rmSync(this.lockPath, { force: true });
+    }
+
+    throw new Error(`Could not take the run lock ${this.lockPath}`);
+  }
+
+  releaseLock(): void {
+    if (!this.ownsLock) {
+      return;
+    }
+    this.ownsLock = false;
+    if (this.readLockFile()?.pid === process.pid) {
+      rmSync(this.lockPath, { force: true });
+    }
+  }
+
+  private readLockFile(): RunLock | null {
+    if (!existsSync(this.lockPath)) {
+      return null;
+    }
+
+    try {
+      const result = RunLockSchema.safeParse(JSON.parse(readFileSync(this.lockPath, 'utf-8')));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function isStale(lock: RunLock): boolean {
+  // A process on another host cannot be checked, so its lock is trusted
+  if (lock.hostname !== hostname()) {
+    return false;
+  }
+
+  try {
+    process.kill(lock.pid, 0);
+    return false;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
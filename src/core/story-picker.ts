@@ -5,9 +5,18 @@ export interface StoryPickerOptions {
   targetStory?: string;
 }
 
+/** True while any of the story's dependencies has not passed. */
+export function hasUnmetDependencies(story: UserStory, stories: UserStory[]): boolean {
+  return (story.dependsOn ?? []).some(
+    (id) => !stories.find((other) => other.id === id)?.passes
+  );
+}
+
 export class StoryPicker {
   private prd: Prd;
   private blockedStories: Set<string>;
+  // Stories set aside for the rest of this run without being blocked
+  private skippedStories = new Set<string>();
   private targetStory?: string;
 
   constructor(prd: Prd, options: StoryPickerOptions = {}) {
@@ -20,19 +29,73 @@ export class StoryPicker {
     this.blockedStories = new Set(blocked);
   }
 
-  getNextStory(): UserStory | null {
+  skipStory(storyId: string): void {
+    this.skippedStories.add(storyId);
+  }
+
+  isSkipped(storyId: string): boolean {
+    return this.skippedStories.has(storyId);
+  }
+
+  isWaiting(story: UserStory): boolean {
+    return !story.passes && hasUnmetDependencies(story, this.prd.userStories);
+  }
+
+  /**
+   * The unfinished stories a waiting story is held up by, following waiting
+   * dependencies down to the ones that could run (or are blocked or skipped).
+   */
+  getWaitingOn(story: UserStory): string[] {
+    const waitingOn = new Set<string>();
+    const seen = new Set<string>();
+    const visit = (current: UserStory): void => {
+      for (const id of current.dependsOn ?? []) {
+        const dependency = this.prd.userStories.find((s) => s.id === id);
+        if (!dependency || dependency.passes || seen.has(id)) {
+          continue;
+        }
+        seen.add(id);
+        if (this.isWaiting(dependency)) {
+          visit(dependency);
+        } else {
+          waitingOn.add(id);
+        }
+      }
+    };
+
+    visit(story);
+    return [...waitingOn];
+  }
+
+  getWaitingStories(): UserStory[] {
+    return this.prd.userStories
+      .filter((s) => this.isWaiting(s))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  private isAvailable(story: UserStory): boolean {
+    return (
+      !story.passes &&
+      !this.blockedStories.has(story.id) &&
+      !this.skippedStories.has(story.id) &&
+      !this.isWaiting(story)
+    );
+  }
+
+  /** Picks the next story to work on, leaving out `exclude`, e.g. stories already running. */
+  getNextStory(exclude: ReadonlySet<string> = new Set()): UserStory | null {
     // If a specific story is targeted, return it if not complete
     if (this.targetStory) {
       const story = this.prd.userStories.find((s) => s.id === this.targetStory);
-      if (story && !story.passes && !this.blockedStories.has(story.id)) {
+      if (story && this.isAvailable(story)) {
         return story;
       }
       return null;
     }
 
-    // Get all incomplete, unblocked stories sorted by priority
+    // Get all incomplete, unblocked stories whose dependencies passed, by priority
     const candidates = this.prd.userStories
-      .filter((s) => !s.passes && !this.blockedStories.has(s.id))
+      .filter((s) => this.isAvailable(s) && !exclude.has(s.id))
       .sort((a, b) => a.priority - b.priority);
 
     return candidates[0] ?? null;
@@ -40,7 +103,7 @@ export class StoryPicker {
 
   getRemainingStories(): UserStory[] {
     return this.prd.userStories
-      .filter((s) => !s.passes && !this.blockedStories.has(s.id))
+      .filter((s) => this.isAvailable(s))
       .sort((a, b) => a.priority - b.priority);
   }
 
@@ -57,9 +120,7 @@ export class StoryPicker {
   }
 
   isAllCompletedOrBlocked(): boolean {
-    return this.prd.userStories.every(
-      (s) => s.passes || this.blockedStories.has(s.id)
-    );
+    return this.prd.userStories.every((s) => !this.isAvailable(s));
   }
 
   getTotalCount(): number {
@@ -0,0 +1,192 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+} from 'node:fs';
+import { basename, dirname, relative, resolve } from 'node:path';
+import { AgentEvent } from '../agents/stream-json.js';
+import { AgentStream } from '../agents/backend.js';
+import { ReviewOutput, StructuredOutput } from '../types/output.js';
+import { PipelineResult } from '../verification/pipeline.js';
+
+const RUNS_DIR = '.gushter/runs';
+const ITERATION_DIR_PATTERN = /^(\d+)-(.+)$/;
+
+export const TRANSCRIPT_FILES = {
+  prompt: 'prompt.md',
+  stdout: 'stdout.log',
+  stderr: 'stderr.log',
+  events: 'events.jsonl',
+  output: 'output.json',
+  verification: 'verification.json',
+  verificationDir: 'verification',
+  planPrompt: 'plan-prompt.md',
+  planOutput: 'plan.log',
+  planEvents: 'plan-events.jsonl',
+  plan: 'plan.md',
+  reviewPrompt: 'review-prompt.md',
+  reviewOutput: 'review.log',
+  review: 'review.json',
+} as const;
+
+function toFileName(name: string): string {
+  return name.replace(/[^\w.-]+/g, '_');
+}
+
+export interface TranscriptInfo {
+  runId: string;
+  iteration: number;
+  storyId: string;
+  dir: string;
+}
+
+export function verificationLogName(index: number, commandName: string): string {
+  return `${index + 1}-${toFileName(commandName)}.log`;
+}
+
+export function createRunId(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Files for one iteration under `.gushter/runs/<runId>/<iteration>-<storyId>/`.
+ * Agent output is appended as it arrives so the transcript can be followed live.
+ */
+export class IterationTranscript {
+  readonly dir: string;
+  private absoluteDir: string;
+
+  constructor(cwd: string, runId: string, iteration: number, storyId: string) {
+    this.absoluteDir = resolve(cwd, RUNS_DIR, runId, `${iteration}-${toFileName(storyId)}`);
+    this.dir = relative(cwd, this.absoluteDir);
+    mkdirSync(this.absoluteDir, { recursive: true });
+  }
+
+  /** Reopens the transcript stored at `dir`, e.g. to add to it after a restart. */
+  static open(cwd: string, dir: string): IterationTranscript {
+    const match = ITERATION_DIR_PATTERN.exec(basename(dir));
+    if (!match?.[1] || !match[2]) {
+      throw new Error(`Not an iteration transcript directory: ${dir}`);
+    }
+    return new IterationTranscript(cwd, basename(dirname(dir)), parseInt(match[1], 10), match[2]);
+  }
+
+  writePrompt(prompt: string): void {
+    this.write(TRANSCRIPT_FILES.prompt, prompt);
+  }
+
+  appendOutput(chunk: string, stream: AgentStream): void {
+    appendFileSync(
+      resolve(this.absoluteDir, stream === 'stdout' ? TRANSCRIPT_FILES.stdout : TRANSCRIPT_FILES.stderr),
+      chunk
+    );
+  }
+
+  appendEvent(event: AgentEvent): void {
+    appendFileSync(resolve(this.absoluteDir, TRANSCRIPT_FILES.events), JSON.stringify(event) + '\n');
+  }
+
+  writeParsedOutput(structured: StructuredOutput | null): void {
+    this.write(TRANSCRIPT_FILES.output, JSON.stringify(structured, null, 2));
+  }
+
+  writeVerification(result: PipelineResult): void {
+    const dir = resolve(this.absoluteDir, TRANSCRIPT_FILES.verificationDir);
+    mkdirSync(dir, { recursive: true });
+
+    result.results.forEach((r, index) => {
+      writeFileSync(resolve(dir, verificationLogName(index, r.name)), r.output);
+    });
+
+    const summary = {
+      success: result.success,
+      totalDurationMs: result.totalDurationMs,
+      results: result.results.map(({ name, command, success, durationMs }) => ({
+        name,
+        command,
+        success,
+        durationMs,
+      })),
+    };
+    this.write(TRANSCRIPT_FILES.verification, JSON.stringify(summary, null, 2));
+  }
+
+  writePlanPrompt(prompt: string): void {
+    this.write(TRANSCRIPT_FILES.planPrompt, prompt);
+  }
+
+  appendPlanOutput(chunk: string): void {
+    appendFileSync(resolve(this.absoluteDir, TRANSCRIPT_FILES.planOutput), chunk);
+  }
+
+  appendPlanEvent(event: AgentEvent): void {
+    appendFileSync(
+      resolve(this.absoluteDir, TRANSCRIPT_FILES.planEvents),
+      JSON.stringify(event) + '\n'
+    );
+  }
+
+  writePlan(plan: string): void {
+    this.write(TRANSCRIPT_FILES.plan, plan);
+  }
+
+  /** The plan written for this iteration, or null if it had no planning step. */
+  readPlan(): string | null {
+    const path = resolve(this.absoluteDir, TRANSCRIPT_FILES.plan);
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  }
+
+  writeReviewPrompt(prompt: string): void {
+    this.write(TRANSCRIPT_FILES.reviewPrompt, prompt);
+  }
+
+  appendReviewOutput(chunk: string): void {
+    appendFileSync(resolve(this.absoluteDir, TRANSCRIPT_FILES.reviewOutput), chunk);
+  }
+
+  writeReview(review: ReviewOutput | null): void {
+    this.write(TRANSCRIPT_FILES.review, JSON.stringify(review, null, 2));
+  }
+
+  private write(fileName: string, content: string): void {
+    writeFileSync(resolve(this.absoluteDir, fileName), content);
+  }
+}
+
+/** Lists stored transcripts, oldest first. */
+export function listTranscripts(cwd: string): TranscriptInfo[] {
+  const runsDir = resolve(cwd, RUNS_DIR);
+  if (!existsSync(runsDir)) {
+    return [];
+  }
+
+  const transcripts: TranscriptInfo[] = [];
+  for (const runId of readdirSync(runsDir).sort()) {
+    const runDir = resolve(runsDir, runId);
+    const entries = readdirSync(runDir, { withFileTypes: true });
+    for (const entry of entries) {
+      const match = entry.isDirectory() ? ITERATION_DIR_PATTERN.exec(entry.name) : null;
+      if (match?.[1] && match[2]) {
+        transcripts.push({
+          runId,
+          iteration: parseInt(match[1], 10),
+          storyId: match[2],
+          dir: relative(cwd, resolve(runDir, entry.name)),
+        });
+      }
+    }
+  }
+
+  return transcripts.sort(
+    (a, b) => a.runId.localeCompare(b.runId) || a.iteration - b.iteration
+  );
+}
+
+/** Reads a transcript file, returning null if it was never written. */
+export function readTranscriptFile(cwd: string, dir: string, fileName: string): string | null {
+  const path = resolve(cwd, dir, fileName);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
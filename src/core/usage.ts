@@ -0,0 +1,104 @@
+import { ModelPrice } from '../config/schema.js';
+import { TokenUsage, UsageTotals } from '../types/state.js';
+
+/** Published list prices in USD per million tokens, matched by model-name prefix. */
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25 },
+  'claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5 },
+  'claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+};
+
+// Anthropic bills cache reads at 10% and cache writes at 125% of the input price
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+/**
+ * Finds the price for a model by longest matching prefix. Configured prices
+ * override the defaults; a `default` entry applies to unknown or unreported models.
+ */
+export function findModelPrice(
+  model: string | undefined,
+  pricing: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+  const table = { ...DEFAULT_PRICING, ...pricing };
+  if (model) {
+    const match = Object.keys(table)
+      .filter((prefix) => prefix !== 'default' && model.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match) {
+      return table[match];
+    }
+  }
+  return table['default'];
+}
+
+export function estimateCost(
+  usage: TokenUsage,
+  model: string | undefined,
+  pricing: Record<string, ModelPrice> = {}
+): number | undefined {
+  const price = findModelPrice(model, pricing);
+  if (!price) {
+    return undefined;
+  }
+
+  const cacheReadPrice = price.cacheReadPerMTok ?? price.inputPerMTok * CACHE_READ_MULTIPLIER;
+  const cacheWritePrice = price.cacheWritePerMTok ?? price.inputPerMTok * CACHE_WRITE_MULTIPLIER;
+
+  return (
+    (usage.inputTokens * price.inputPerMTok +
+      usage.outputTokens * price.outputPerMTok +
+      usage.cacheReadInputTokens * cacheReadPrice +
+      usage.cacheCreationInputTokens * cacheWritePrice) /
+    1_000_000
+  );
+}
+
+export function addTokenUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.cacheReadInputTokens += usage.cacheReadInputTokens;
+  total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+}
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) {
+    return `${(count / 1_000_000).toFixed(1)}M`;
+  }
+  if (count >= 1_000) {
+    return `${(count / 1_000).toFixed(1)}k`;
+  }
+  return String(count);
+}
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+  return `${seconds}s`;
+}
+
+export function formatTotals(totals: UsageTotals): string {
+  const { tokens } = totals;
+  const input = tokens.inputTokens + tokens.cacheReadInputTokens + tokens.cacheCreationInputTokens;
+  return [
+    `${totals.iterations} iterations`,
+    `${formatTokens(input)} in / ${formatTokens(tokens.outputTokens)} out tokens`,
+    `${formatCost(totals.costUsd)} est.`,
+    formatDuration(totals.durationMs),
+  ].join(', ');
+}
@@ -4,6 +4,8 @@ import { Command } from 'commander';
 import { runCommand } from './cli/commands/run.js';
 import { statusCommand } from './cli/commands/status.js';
 import { rollbackCommand } from './cli/commands/rollback.js';
+import { logsCommand } from './cli/commands/logs.js';
+import { journalCommand } from './cli/commands/journal.js';
 import { initCommand } from './cli/commands/init.js';
 import { prdCommand } from './cli/commands/prd.js';
 import { prdConvertCommand } from './cli/commands/prd-convert.js';
@@ -23,7 +25,13 @@ program
   .option('--no-dashboard', 'Disable terminal UI')
   .option('-s, --story <id>', 'Run specific story only')
   .option('-r, --resume', 'Resume from saved state')
+  .option('--recover <action>', 'With --resume, reset or verify interrupted iterations (reset|verify)')
   .option('-v, --verbose', 'Verbose output')
+  .option('--fixture <file>', 'Replay scripted agent output from a JSON/YAML fixture')
+  .option('--parallel <n>', 'Run up to n independent stories at once in git worktrees', parseInt)
+  .option('--approval <mode>', 'Ask for review of verified stories (none|per-story|on-failure)')
+  .option('--plan', 'Have a planner agent write a plan before each story is implemented')
+  .option('--review', 'Have a second agent check verified stories against their acceptance criteria')
   .action(async (options) => {
     await runCommand({
       maxIterations: options.maxIterations,
@@ -32,6 +40,12 @@ program
       story: options.story,
       resume: options.resume,
       verbose: options.verbose,
+      fixture: options.fixture,
+      recover: options.recover,
+      parallel: options.parallel,
+      approval: options.approval,
+      plan: options.plan,
+      review: options.review,
     });
   });
 
@@ -45,6 +59,22 @@ program
     });
   });
 
+program
+  .command('logs [storyOrIteration]')
+  .description('Show the transcript of an iteration (latest by default)')
+  .option('-f, --follow', 'Stream output of the iteration in progress')
+  .option('--verification', 'Show only verification command output')
+  .option('--raw', 'Print agent output without formatting')
+  .option('--json', 'Print the transcript as JSON')
+  .action(async (storyOrIteration, options) => {
+    await logsCommand(storyOrIteration, {
+      follow: options.follow,
+      verification: options.verification,
+      raw: options.raw,
+      json: options.json,
+    });
+  });
+
 program
   .command('rollback [storyId]')
   .description('Rollback a specific story or all iterations')
@@ -57,6 +87,16 @@ program
     });
   });
 
+program
+  .command('journal [storyId]')
+  .description('Show the event journal, or rebuild the state file from it')
+  .option('--rebuild', 'Replay the journal into .gushter/state.json')
+  .action(async (storyId, options) => {
+    await journalCommand(storyId, {
+      rebuild: options.rebuild,
+    });
+  });
+
 program
   .command('init')
   .description('Initialize gushter in current directory')
@@ -1,3 +1,4 @@
 export * from './prd.js';
 export * from './state.js';
 export * from './output.js';
+export * from './journal.js';
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import {
+  AgentRoleSchema,
+  AgentStatsSchema,
+  FailureReasonSchema,
+  GushterStateSchema,
+  ReviewFailureSchema,
+  VerificationFailureSchema,
+  WorktreeSchema,
+} from './state.js';
+
+// Every entry records when it happened; replay uses these times, not the clock
+const entry = <K extends string, T extends z.ZodRawShape>(type: K, shape: T) =>
+  z.object({ type: z.literal(type), at: z.string(), ...shape });
+
+export const JournalEventSchema = z.discriminatedUnion('type', [
+  entry('run:started', { branchName: z.string(), maxIterations: z.number() }),
+  entry('run:resumed', { maxIterations: z.number() }),
+  // The whole state, for state that existed before the journal did
+  entry('state:snapshot', { state: GushterStateSchema }),
+  entry('iteration:started', {
+    storyId: z.string(),
+    startSha: z.string(),
+    startTree: z.string().optional(),
+    transcriptDir: z.string().optional(),
+    worktree: WorktreeSchema.optional(),
+  }),
+  entry('iteration:stats', {
+    storyId: z.string(),
+    stats: AgentStatsSchema,
+    costUsd: z.number().optional(),
+    // Absent for the implementer
+    role: AgentRoleSchema.optional(),
+  }),
+  entry('iteration:completed', { storyId: z.string(), endSha: z.string() }),
+  entry('iteration:failed', {
+    storyId: z.string(),
+    error: z.string(),
+    reason: FailureReasonSchema,
+    maxAttempts: z.number(),
+    agentError: z.string().optional(),
+    verificationFailures: z.array(VerificationFailureSchema).optional(),
+    reviewFailures: z.array(ReviewFailureSchema).optional(),
+  }),
+  entry('iteration:interrupted', { storyId: z.string() }),
+  entry('iteration:reopened', { storyId: z.string() }),
+  entry('iteration:rolled_back', { storyId: z.string() }),
+  entry('story:unblocked', { storyId: z.string() }),
+  // From `gushter rollback`; `storyId` is absent for --all
+  entry('rollback', { storyId: z.string().optional() }),
+]);
+
+export type JournalEvent = z.infer<typeof JournalEventSchema>;
+export type JournalEventType = JournalEvent['type'];
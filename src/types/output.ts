@@ -12,9 +12,24 @@ export const StructuredOutputSchema = z.object({
   nextAction: NextActionSchema,
 });
 
+// One verdict per acceptance criterion, in the order the story lists them
+export const CriterionVerdictSchema = z.object({
+  criterion: z.string().optional().default(''),
+  met: z.boolean(),
+  reason: z.string().optional().default(''),
+});
+
+export const ReviewOutputSchema = z.object({
+  storyId: z.string(),
+  criteria: z.array(CriterionVerdictSchema),
+  summary: z.string().optional().default(''),
+});
+
 export type OutputStatus = z.infer<typeof OutputStatusSchema>;
 export type NextAction = z.infer<typeof NextActionSchema>;
 export type StructuredOutput = z.infer<typeof StructuredOutputSchema>;
+export type CriterionVerdict = z.infer<typeof CriterionVerdictSchema>;
+export type ReviewOutput = z.infer<typeof ReviewOutputSchema>;
 
 export interface ParsedOutput {
   structured: StructuredOutput | null;
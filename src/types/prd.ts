@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AgentRoleSchema } from './state.js';
 
 export const UserStorySchema = z.object({
   id: z.string(),
@@ -8,14 +9,73 @@ export const UserStorySchema = z.object({
   priority: z.number(),
   passes: z.boolean(),
   notes: z.string().optional().default(''),
+  // Stories that must pass before this one is picked
+  dependsOn: z.array(z.string()).optional(),
+  // The agent roles to run for this story, instead of the ones `plan` and `review` enable
+  roles: z
+    .array(AgentRoleSchema)
+    .refine((roles) => roles.includes('implementer'), 'roles must include implementer')
+    .optional(),
 });
 
-export const PrdSchema = z.object({
-  project: z.string(),
-  branchName: z.string(),
-  description: z.string(),
-  userStories: z.array(UserStorySchema),
-});
+export const PrdSchema = z
+  .object({
+    project: z.string(),
+    branchName: z.string(),
+    description: z.string(),
+    userStories: z.array(UserStorySchema),
+  })
+  .superRefine((prd, ctx) => {
+    for (const message of findDependencyErrors(prd.userStories)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['userStories'], message });
+    }
+  });
 
 export type UserStory = z.infer<typeof UserStorySchema>;
 export type Prd = z.infer<typeof PrdSchema>;
+
+type StoryDependencies = Pick<UserStory, 'id' | 'dependsOn'>;
+
+/** Reports dependencies on unknown stories and dependency cycles. */
+export function findDependencyErrors(stories: StoryDependencies[]): string[] {
+  const errors: string[] = [];
+  const byId = new Map(stories.map((story) => [story.id, story]));
+
+  for (const story of stories) {
+    for (const dependency of story.dependsOn ?? []) {
+      if (!byId.has(dependency)) {
+        errors.push(`Story ${story.id} depends on unknown story ${dependency}`);
+      }
+    }
+  }
+
+  // Depth-first search; reaching a story that is still on the path closes a cycle
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (id: string): void => {
+    const cycleStart = path.indexOf(id);
+    if (cycleStart !== -1) {
+      const cycle = [...path.slice(cycleStart), id];
+      errors.push(`Dependency cycle: ${cycle.join(' -> ')}`);
+      return;
+    }
+    if (visited.has(id)) {
+      return;
+    }
+
+    visited.add(id);
+    path.push(id);
+    for (const dependency of byId.get(id)?.dependsOn ?? []) {
+      if (byId.has(dependency)) {
+        visit(dependency);
+      }
+    }
+    path.pop();
+  };
+
+  for (const story of stories) {
+    visit(story.id);
+  }
+
+  return errors;
+}
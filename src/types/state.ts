@@ -7,33 +7,136 @@ export const IterationStatusSchema = z.enum([
   'failed',
   'blocked',
   'rolled_back',
+  'interrupted',
 ]);
 
+export const FailureReasonSchema = z.enum([
+  'agent',
+  'verification',
+  'timeout',
+  'conflict',
+  'rejected',
+  'review',
+  'error',
+]);
+
+export const VerificationFailureSchema = z.object({
+  name: z.string(),
+  command: z.string(),
+  outputTail: z.string(),
+});
+
+// An acceptance criterion the reviewer found unmet
+export const ReviewFailureSchema = z.object({
+  criterion: z.string(),
+  reason: z.string(),
+});
+
+export const TokenUsageSchema = z.object({
+  inputTokens: z.number().default(0),
+  outputTokens: z.number().default(0),
+  cacheReadInputTokens: z.number().default(0),
+  cacheCreationInputTokens: z.number().default(0),
+});
+
+// The part an agent run plays in an iteration
+export const AgentRoleSchema = z.enum(['planner', 'implementer', 'reviewer']);
+
+export const AgentStatsSchema = z.object({
+  model: z.string().optional(),
+  turns: z.number(),
+  toolCalls: z.record(z.number()),
+  filesEdited: z.array(z.string()),
+  usage: TokenUsageSchema,
+});
+
+export const UsageTotalsSchema = z.object({
+  iterations: z.number().default(0),
+  tokens: TokenUsageSchema.default({}),
+  costUsd: z.number().default(0),
+  durationMs: z.number().default(0),
+});
+
+// A git worktree a parallel iteration runs in, on its own branch
+export const WorktreeSchema = z.object({
+  path: z.string(),
+  branch: z.string(),
+});
+
 export const IterationSchema = z.object({
   storyId: z.string(),
+  // Run-wide iteration number, as shown in logs and commit trailers
+  number: z.number().optional(),
   status: IterationStatusSchema,
   startSha: z.string(),
+  // The working tree at the start, untracked files included, so a rollback
+  // deletes only the files created since
+  startTree: z.string().optional(),
   endSha: z.string().optional(),
   retryCount: z.number().default(0),
+  timeoutCount: z.number().default(0),
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
   error: z.string().optional(),
+  failureReason: FailureReasonSchema.optional(),
+  agentError: z.string().optional(),
+  verificationFailures: z.array(VerificationFailureSchema).optional(),
+  reviewFailures: z.array(ReviewFailureSchema).optional(),
+  agentStats: AgentStatsSchema.optional(),
+  planStats: AgentStatsSchema.optional(),
+  reviewStats: AgentStatsSchema.optional(),
+  costUsd: z.number().optional(),
+  durationMs: z.number().optional(),
+  transcriptDir: z.string().optional(),
+  worktree: WorktreeSchema.optional(),
+});
+
+export const StoryHistorySchema = z.object({
+  // Every iteration run for the story, oldest first
+  attempts: z.array(IterationSchema).default([]),
 });
 
 export const GushterStateSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(2),
   branchName: z.string(),
   currentIteration: z.number(),
   maxIterations: z.number(),
-  iterations: z.array(IterationSchema),
+  stories: z.record(StoryHistorySchema).default({}),
   blockedStories: z.array(z.string()),
+  usage: z
+    .object({
+      run: UsageTotalsSchema.default({}),
+      stories: z.record(UsageTotalsSchema).default({}),
+    })
+    .default({}),
   startedAt: z.string(),
   lastUpdatedAt: z.string(),
 });
 
+// Held in .gushter/run.lock by the process running the loop
+export const RunLockSchema = z.object({
+  pid: z.number(),
+  hostname: z.string(),
+  startedAt: z.string(),
+});
+
 export type IterationStatus = z.infer<typeof IterationStatusSchema>;
+export type FailureReason = z.infer<typeof FailureReasonSchema>;
+export type VerificationFailure = z.infer<typeof VerificationFailureSchema>;
+export type ReviewFailure = z.infer<typeof ReviewFailureSchema>;
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
+export type AgentRole = z.infer<typeof AgentRoleSchema>;
+export type AgentStats = z.infer<typeof AgentStatsSchema>;
+export type UsageTotals = z.infer<typeof UsageTotalsSchema>;
+export type Worktree = z.infer<typeof WorktreeSchema>;
 export type Iteration = z.infer<typeof IterationSchema>;
+export type StoryHistory = z.infer<typeof StoryHistorySchema>;
 export type GushterState = z.infer<typeof GushterStateSchema>;
+export type RunLock = z.infer<typeof RunLockSchema>;
+
+export function createEmptyTotals(): UsageTotals {
+  return UsageTotalsSchema.parse({});
+}
 
 export function createInitialState(
   branchName: string,
@@ -41,13 +144,25 @@ export function createInitialState(
 ): GushterState {
   const now = new Date().toISOString();
   return {
-    version: 1,
+    version: 2,
     branchName,
     currentIteration: 0,
     maxIterations,
-    iterations: [],
+    stories: {},
     blockedStories: [],
+    usage: { run: createEmptyTotals(), stories: {} },
     startedAt: now,
     lastUpdatedAt: now,
   };
 }
+
+/** Every story's attempts in the order they started. */
+export function listIterations(state: GushterState): Iteration[] {
+  return Object.values(state.stories)
+    .flatMap((story) => story.attempts)
+    .sort(
+      (a, b) =>
+        (a.startedAt ?? '').localeCompare(b.startedAt ?? '') || (a.number ?? 0) - (b.number ?? 0)
+    );
+}
+
@@ -1,3 +1,5 @@
 export * from './logger.js';
 export * from './retry.js';
 export * from './archive.js';
+export * from './template.js';
+export * from './process.js';
@@ -1,7 +1,11 @@
+import { format } from 'node:util';
 import chalk from 'chalk';
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'success';
 
+/** Receives each formatted line instead of the console, e.g. a terminal UI. */
+export type LogSink = (line: string) => void;
+
 export interface LoggerOptions {
   verbose?: boolean;
   silent?: boolean;
@@ -10,6 +14,7 @@ export interface LoggerOptions {
 export class Logger {
   private verbose: boolean;
   private silent: boolean;
+  private sink: LogSink | null = null;
 
   constructor(options: LoggerOptions = {}) {
     this.verbose = options.verbose ?? false;
@@ -24,11 +29,24 @@ export class Logger {
     this.silent = silent;
   }
 
+  /** Redirects output to `sink` until it is reset with `null`. */
+  setSink(sink: LogSink | null): void {
+    this.sink = sink;
+  }
+
+  private write(...parts: unknown[]): void {
+    if (this.sink) {
+      this.sink(format(...parts));
+    } else {
+      console.log(...parts);
+    }
+  }
+
   private log(level: LogLevel, message: string, ...args: unknown[]): void {
     if (this.silent && level !== 'error') return;
 
     const prefix = this.getPrefix(level);
-    console.log(prefix, message, ...args);
+    this.write(prefix, message, ...args);
   }
 
   private getPrefix(level: LogLevel): string {
@@ -70,19 +88,19 @@ export class Logger {
 
   raw(message: string): void {
     if (!this.silent) {
-      console.log(message);
+      this.write(message);
     }
   }
 
   newline(): void {
     if (!this.silent) {
-      console.log();
+      this.write('');
     }
   }
 
   divider(char = '=', length = 60): void {
     if (!this.silent) {
-      console.log(chalk.gray(char.repeat(length)));
+      this.write(chalk.gray(char.repeat(length)));
     }
   }
 
@@ -0,0 +1,141 @@
+import { execSync, spawn } from 'node:child_process';
+
+// Grace period between SIGTERM and SIGKILL when a command is stopped
+const KILL_GRACE_MS = 5000;
+
+export interface ShellCommandOptions {
+  cwd: string;
+  // Kills the command, and everything it started, once it runs this long
+  timeoutMs?: number;
+  // Aborting kills the command the same way a timeout does
+  signal?: AbortSignal;
+}
+
+export interface ShellCommandResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  aborted: boolean;
+}
+
+// Commands run in their own process group, out of reach of a terminal's Ctrl+C
+const runningCommands = new Set<number>();
+
+/** Force-kills every running command's process tree, e.g. before a forced exit. */
+export function killRunningCommands(): void {
+  for (const pid of runningCommands) {
+    killProcessTree(pid, 'SIGKILL');
+  }
+  runningCommands.clear();
+}
+
+/**
+ * Sends a signal to a process and all of its descendants. The process must
+ * have been spawned with `detached: true` so it leads its own process group.
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (process.platform === 'win32') {
+    try {
+      execSync(`taskkill /pid ${pid} /T /F`, { stdio: 'ignore' });
+    } catch {
+      // Process already exited
+    }
+    return;
+  }
+
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Process already exited
+    }
+  }
+}
+
+/**
+ * Runs a shell command without blocking the event loop, so other agents,
+ * timers and signal handlers keep running. The command leads its own process
+ * group: a Ctrl+C in the terminal does not reach it, and a timeout or abort
+ * kills everything it started.
+ */
+export function runShellCommand(
+  command: string,
+  options: ShellCommandOptions
+): Promise<ShellCommandResult> {
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      cwd: options.cwd,
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+    });
+
+    const pid = child.pid;
+    if (pid !== undefined) {
+      runningCommands.add(pid);
+    }
+
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let aborted = false;
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = () => {
+      if (pid === undefined) return;
+      killProcessTree(pid, 'SIGTERM');
+      killTimer = setTimeout(() => killProcessTree(pid, 'SIGKILL'), KILL_GRACE_MS);
+    };
+
+    const expire = () => {
+      if (timedOut || aborted) return;
+      timedOut = true;
+      terminate();
+    };
+
+    const abort = () => {
+      if (timedOut || aborted) return;
+      aborted = true;
+      terminate();
+    };
+
+    const clearTimers = () => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', abort);
+      if (pid !== undefined) {
+        runningCommands.delete(pid);
+      }
+    };
+
+    if (options.timeoutMs) {
+      timeoutTimer = setTimeout(expire, options.timeoutMs);
+    }
+    if (options.signal?.aborted) {
+      abort();
+    } else {
+      options.signal?.addEventListener('abort', abort);
+    }
+
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code) => {
+      clearTimers();
+      resolve({ exitCode: code ?? 1, stdout, stderr, timedOut, aborted });
+    });
+
+    child.on('error', (error) => {
+      clearTimers();
+      resolve({ exitCode: 1, stdout, stderr: `${stderr}${error.message}`, timedOut, aborted });
+    });
+  });
+}
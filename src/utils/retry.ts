@@ -1,7 +1,10 @@
 import { RetryConfig } from '../config/schema.js';
+import { FailureReason } from '../types/state.js';
 import { logger } from './logger.js';
 
-export interface RetryOptions extends RetryConfig {
+export type BackoffConfig = Pick<RetryConfig, 'initialDelayMs' | 'backoffMultiplier' | 'maxDelayMs'>;
+
+export interface RetryOptions extends BackoffConfig {
   maxRetries: number;
 }
 
@@ -14,15 +17,47 @@ export interface RetryResult<T> {
 
 export function calculateBackoffDelay(
   attempt: number,
-  config: RetryConfig
+  config: BackoffConfig
 ): number {
   const { initialDelayMs = 2000, backoffMultiplier = 2, maxDelayMs = 60000 } = config;
   const delay = initialDelayMs * Math.pow(backoffMultiplier, attempt - 1);
   return Math.min(delay, maxDelayMs);
 }
 
-export async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Timeouts usually mean a hung agent rather than bad code, so they retry
+ * after a fixed delay instead of backing off exponentially. A story rejected
+ * in review is retried at once, as waiting would not change the feedback.
+ */
+export function calculateRetryDelay(
+  reason: FailureReason,
+  attempt: number,
+  config: RetryConfig
+): number {
+  if (reason === 'rejected') {
+    return 0;
+  }
+  if (reason === 'timeout') {
+    return config.timeoutDelayMs;
+  }
+  return calculateBackoffDelay(attempt, config);
+}
+
+/** Waits for `ms`, or until `signal` is aborted. */
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return;
+  }
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
 }
 
 export async function withRetry<T>(
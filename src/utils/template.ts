@@ -0,0 +1,58 @@
+export type TemplateContext = Record<string, unknown>;
+
+// A section with its body, or a single variable
+const TAG_PATTERN =
+  /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}|\{\{\s*([\w.]+)\s*\}\}/g;
+
+function lookup(context: TemplateContext, path: string): unknown {
+  let current: unknown = context;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => `- ${formatValue(item)}`).join('\n');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+/**
+ * Renders a mustache-style template.
+ *
+ * Supports `{{path.to.value}}` substitution (arrays render as markdown
+ * bullet lists, missing values as empty strings), `{{#key}}...{{/key}}`
+ * sections shown when the value is truthy, and `{{^key}}...{{/key}}`
+ * sections shown when it is not. The template is scanned once, so
+ * substituted values are never expanded themselves.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(
+    TAG_PATTERN,
+    (_match, kind: string | undefined, sectionPath: string, body: string, path: string) => {
+      if (kind === undefined) {
+        return formatValue(lookup(context, path));
+      }
+      const show = isTruthy(lookup(context, sectionPath));
+      return (kind === '#') === show ? renderTemplate(body, context) : '';
+    }
+  );
+}
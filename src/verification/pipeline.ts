@@ -1,6 +1,7 @@
-import { execSync } from 'node:child_process';
 import { VerificationCommand } from '../config/schema.js';
+import { VerificationFailure } from '../types/state.js';
 import { logger } from '../utils/logger.js';
+import { runShellCommand } from '../utils/process.js';
 
 export interface VerificationResult {
   name: string;
@@ -14,20 +15,48 @@ export interface PipelineResult {
   success: boolean;
   results: VerificationResult[];
   totalDurationMs: number;
+  // Stopped from the outside; commands that did not finish have no result
+  aborted?: boolean;
+}
+
+const MAX_TAIL_LINE_LENGTH = 500;
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 300000;
+
+export function tailOutput(output: string, maxLines: number): string {
+  const lines = output.trimEnd().split('\n');
+  const tail = lines.slice(-maxLines).map((line) =>
+    line.length > MAX_TAIL_LINE_LENGTH ? `${line.slice(0, MAX_TAIL_LINE_LENGTH)}…` : line
+  );
+  if (lines.length > maxLines) {
+    tail.unshift(`… (${lines.length - maxLines} earlier lines omitted)`);
+  }
+  return tail.join('\n');
 }
 
 export class VerificationPipeline {
   private commands: VerificationCommand[];
   private cwd: string;
   private dryRun: boolean;
-
-  constructor(commands: VerificationCommand[], cwd: string, dryRun: boolean = false) {
+  private timeoutMs: number;
+
+  constructor(
+    commands: VerificationCommand[],
+    cwd: string,
+    dryRun: boolean = false,
+    timeoutMs: number = DEFAULT_COMMAND_TIMEOUT_MS
+  ) {
     this.commands = commands;
     this.cwd = cwd;
     this.dryRun = dryRun;
+    this.timeoutMs = timeoutMs;
   }
 
-  async run(): Promise<PipelineResult> {
+  /** Runs every command in order. Aborting `signal` kills the running command and stops. */
+  async run(
+    onCommand?: (result: VerificationResult) => void,
+    signal?: AbortSignal
+  ): Promise<PipelineResult> {
     const results: VerificationResult[] = [];
     const startTime = Date.now();
     let allPassed = true;
@@ -44,8 +73,13 @@ export class VerificationPipeline {
     logger.info('Running verification pipeline...');
 
     for (const command of this.commands) {
-      const result = await this.runCommand(command);
+      const result = await this.runCommand(command, signal);
+      if (signal?.aborted) {
+        logger.warn(`  ${command.name}: stopped`);
+        return { success: false, results, totalDurationMs: Date.now() - startTime, aborted: true };
+      }
       results.push(result);
+      onCommand?.(result);
 
       if (result.success) {
         logger.success(`  ${command.name}: passed`);
@@ -66,7 +100,10 @@ export class VerificationPipeline {
     };
   }
 
-  private async runCommand(command: VerificationCommand): Promise<VerificationResult> {
+  private async runCommand(
+    command: VerificationCommand,
+    signal?: AbortSignal
+  ): Promise<VerificationResult> {
     const startTime = Date.now();
 
     if (this.dryRun) {
@@ -80,43 +117,40 @@ export class VerificationPipeline {
       };
     }
 
-    try {
-      const output = execSync(command.command, {
-        cwd: this.cwd,
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe'],
-        timeout: 300000, // 5 minute timeout
-      });
+    const { exitCode, stdout, stderr, timedOut } = await runShellCommand(command.command, {
+      cwd: this.cwd,
+      timeoutMs: this.timeoutMs,
+      signal,
+    });
+    const success = exitCode === 0 && !timedOut;
+
+    let output = success ? stdout : stdout + stderr;
+    if (timedOut) {
+      output = `${output.trimEnd()}\nTimed out after ${this.timeoutMs}ms`;
+    } else if (!success && !output.trim()) {
+      output = `Exited with code ${exitCode}`;
+    }
 
-      return {
-        name: command.name,
-        command: command.command,
-        success: true,
-        output: output.trim(),
-        durationMs: Date.now() - startTime,
-      };
-    } catch (error) {
-      let output = '';
-      if (error instanceof Error) {
-        if ('stdout' in error) {
-          output += String(error.stdout);
-        }
-        if ('stderr' in error) {
-          output += String(error.stderr);
-        }
-        if (!output) {
-          output = error.message;
-        }
-      }
+    return {
+      name: command.name,
+      command: command.command,
+      success,
+      output: output.trim(),
+      durationMs: Date.now() - startTime,
+    };
+  }
 
-      return {
-        name: command.name,
-        command: command.command,
-        success: false,
-        output: output.trim(),
-        durationMs: Date.now() - startTime,
-      };
-    }
+  summarizeFailures(result: PipelineResult, maxLines: number): VerificationFailure[] {
+    const optional = new Set(
+      this.commands.filter((c) => c.optional).map((c) => c.name)
+    );
+    return result.results
+      .filter((r) => !r.success && !optional.has(r.name))
+      .map((r) => ({
+        name: r.name,
+        command: r.command,
+        outputTail: tailOutput(r.output, maxLines),
+      }));
   }
 
   getCommands(): VerificationCommand[] {
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createAgentBackend, killRunningAgents } from '../../src/agents/backend.js';
+import { AgentConfigSchema } from '../../src/config/schema.js';
+
+describe('createAgentBackend', () => {
+  it('should name backends after their type', () => {
+    expect(createAgentBackend(AgentConfigSchema.parse({})).name).toBe('claude');
+    expect(createAgentBackend(AgentConfigSchema.parse({ type: 'codex' })).name).toBe('codex');
+  });
+
+  it('should pipe the prompt to a command backend', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({ type: 'command', command: 'cat' })
+    );
+
+    const result = await backend.run({ prompt: 'hello agent', cwd: process.cwd() });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('hello agent');
+    expect(result.timeout).toBeUndefined();
+  });
+
+  it('should tell a command backend its role and model', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({
+        type: 'command',
+        command: 'sh',
+        args: ['-c', 'printf "$GUSHTER_ROLE $GUSHTER_MODEL"'],
+      })
+    );
+
+    const result = await backend.run({
+      prompt: '',
+      cwd: process.cwd(),
+      role: 'planner',
+      model: 'claude-opus-4',
+    });
+
+    expect(result.output).toBe('planner claude-opus-4');
+  });
+
+  it('should kill an agent that exceeds its wall-clock timeout', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({
+        type: 'command',
+        command: 'sh',
+        args: ['-c', 'echo started; sleep 30'],
+        timeoutMs: 200,
+      })
+    );
+
+    const result = await backend.run({ prompt: '', cwd: process.cwd() });
+
+    expect(result.success).toBe(false);
+    expect(result.timeout).toBe('wall');
+    expect(result.output).toContain('started');
+  });
+
+  it('should kill an agent that stops producing output', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({
+        type: 'command',
+        command: 'sh',
+        args: ['-c', 'sleep 30'],
+        idleTimeoutMs: 200,
+      })
+    );
+
+    const result = await backend.run({ prompt: '', cwd: process.cwd() });
+
+    expect(result.success).toBe(false);
+    expect(result.timeout).toBe('idle');
+  });
+
+  it('should stop an agent when its request is aborted', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({ type: 'command', command: 'sh', args: ['-c', 'sleep 30'] })
+    );
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 200);
+
+    const result = await backend.run({ prompt: '', cwd: process.cwd(), signal: controller.signal });
+
+    expect(result.success).toBe(false);
+    expect(result.aborted).toBe(true);
+    expect(result.timeout).toBeUndefined();
+  });
+
+  it('should force-kill running agents', async () => {
+    const backend = createAgentBackend(
+      AgentConfigSchema.parse({ type: 'command', command: 'sh', args: ['-c', 'sleep 30'] })
+    );
+    setTimeout(() => killRunningAgents(), 200);
+
+    const result = await backend.run({ prompt: '', cwd: process.cwd() });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { checkBudget } from '../../src/core/budget.js';
+import { createEmptyTotals } from '../../src/types/state.js';
+
+describe('checkBudget', () => {
+  const startedAt = '2025-01-01T00:00:00.000Z';
+  const now = new Date('2025-01-01T01:00:00.000Z');
+
+  it('should allow iterations without limits', () => {
+    expect(checkBudget({}, createEmptyTotals(), startedAt, now)).toBeNull();
+  });
+
+  it('should stop when the cost budget is reached', () => {
+    const usage = { ...createEmptyTotals(), costUsd: 5.5 };
+
+    expect(checkBudget({ maxCostUsd: 10 }, usage, startedAt, now)).toBeNull();
+    expect(checkBudget({ maxCostUsd: 5 }, usage, startedAt, now)?.limit).toBe('maxCostUsd');
+  });
+
+  it('should stop when the run has used its wall time', () => {
+    expect(checkBudget({ maxDurationMinutes: 90 }, createEmptyTotals(), startedAt, now)).toBeNull();
+    expect(
+      checkBudget({ maxDurationMinutes: 60 }, createEmptyTotals(), startedAt, now)?.limit
+    ).toBe('maxDurationMinutes');
+  });
+
+  it('should stop at the deadline', () => {
+    expect(
+      checkBudget({ deadline: '2025-01-01T02:00:00Z' }, createEmptyTotals(), startedAt, now)
+    ).toBeNull();
+    expect(
+      checkBudget({ deadline: '2025-01-01T00:30:00Z' }, createEmptyTotals(), startedAt, now)?.limit
+    ).toBe('deadline');
+  });
+
+  it('should report the cost limit first', () => {
+    const usage = { ...createEmptyTotals(), costUsd: 20 };
+    const check = checkBudget(
+      { maxCostUsd: 10, maxDurationMinutes: 1, deadline: '2024-01-01T00:00:00Z' },
+      usage,
+      startedAt,
+      now
+    );
+
+    expect(check?.limit).toBe('maxCostUsd');
+    expect(check?.message).toContain('$20.00 of $10.00');
+  });
+});
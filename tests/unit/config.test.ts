@@ -61,6 +61,91 @@ describe('GushterConfigSchema', () => {
       expect(result.data.claudeMdPath).toBe('custom/CLAUDE.md');
     }
   });
+
+  it('should default the agent backend to claude', () => {
+    const result = GushterConfigSchema.safeParse({});
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.agent.type).toBe('claude');
+      expect(result.data.agent.args).toEqual([]);
+      expect(result.data.agent.env).toEqual({});
+    }
+  });
+
+  it('should validate agent config', () => {
+    const result = GushterConfigSchema.safeParse({
+      agent: {
+        type: 'amp',
+        args: ['--log-level', 'debug'],
+        env: { AMP_API_KEY: 'test' },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.agent.type).toBe('amp');
+      expect(result.data.agent.args).toEqual(['--log-level', 'debug']);
+      expect(result.data.agent.env.AMP_API_KEY).toBe('test');
+    }
+  });
+
+  it('should require a command for the command agent type', () => {
+    expect(GushterConfigSchema.safeParse({ agent: { type: 'command' } }).success).toBe(false);
+    expect(
+      GushterConfigSchema.safeParse({
+        agent: { type: 'command', command: './my-agent.sh' },
+      }).success
+    ).toBe(true);
+  });
+
+  it('should validate budget limits', () => {
+    const result = GushterConfigSchema.safeParse({
+      budget: {
+        maxCostUsd: 25,
+        maxDurationMinutes: 240,
+        deadline: '2025-06-01T07:00:00+02:00',
+      },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.budget.maxCostUsd).toBe(25);
+      expect(result.data.budget.deadline).toBe('2025-06-01T07:00:00+02:00');
+    }
+  });
+
+  it('should accept a custom commit message template', () => {
+    const result = GushterConfigSchema.safeParse({
+      git: { commitMessage: 'chore({{story.id}}): {{story.title}}', trailers: false },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.git.commitMessage).toBe('chore({{story.id}}): {{story.title}}');
+      expect(result.data.git.autoCommit).toBe(true);
+      expect(result.data.git.trailers).toBe(false);
+    }
+  });
+
+  it('should default to one parallel worker', () => {
+    expect(DEFAULT_CONFIG.parallel).toEqual({
+      workers: 1,
+      setupCommands: [],
+      setupTimeoutMs: 600000,
+    });
+    expect(GushterConfigSchema.safeParse({ parallel: { workers: 0 } }).success).toBe(false);
+  });
+
+  it('should not ask for approval by default', () => {
+    expect(DEFAULT_CONFIG.approval).toBe('none');
+    expect(GushterConfigSchema.parse({ approval: 'on-failure' }).approval).toBe('on-failure');
+    expect(GushterConfigSchema.safeParse({ approval: 'always' }).success).toBe(false);
+  });
+
+  it('should reject a deadline that is not an ISO timestamp', () => {
+    expect(GushterConfigSchema.safeParse({ budget: { deadline: 'tomorrow' } }).success).toBe(false);
+  });
 });
 
 describe('DEFAULT_CONFIG', () => {
@@ -72,5 +157,8 @@ describe('DEFAULT_CONFIG', () => {
     expect(DEFAULT_CONFIG.prdPath).toBe('prd.json');
     expect(DEFAULT_CONFIG.progressPath).toBe('progress.txt');
     expect(DEFAULT_CONFIG.claudeMdPath).toBe('CLAUDE.md');
+    expect(DEFAULT_CONFIG.agent.type).toBe('claude');
+    expect(DEFAULT_CONFIG.git.autoCommit).toBe(true);
+    expect(DEFAULT_CONFIG.git.trailers).toBe(true);
   });
 });
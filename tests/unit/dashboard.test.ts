@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { appendOutputLines } from '../../src/cli/dashboard.js';
+
+describe('appendOutputLines', () => {
+  it('should continue the last line across chunks', () => {
+    let lines = appendOutputLines([], 'Reading fi', 100);
+    lines = appendOutputLines(lines, 'les...\nDone\n', 100);
+
+    expect(lines).toEqual(['Reading files...', 'Done', '']);
+  });
+
+  it('should normalize carriage returns', () => {
+    expect(appendOutputLines([], 'a\r\nb\rc', 100)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep only the most recent lines', () => {
+    const lines = appendOutputLines([], '1\n2\n3\n4\n5', 3);
+
+    expect(lines).toEqual(['3', '4', '5']);
+  });
+});
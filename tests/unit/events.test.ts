@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OrchestratorEventBus } from '../../src/core/events.js';
+
+const budgetCheck = { limit: 'maxCostUsd' as const, message: 'Cost limit reached' };
+
+describe('OrchestratorEventBus', () => {
+  it('should deliver payloads to subscribers in order', () => {
+    const bus = new OrchestratorEventBus();
+    const calls: string[] = [];
+
+    bus.on('story:commit', ({ sha }) => calls.push(`first ${sha}`));
+    bus.on('story:commit', ({ sha }) => calls.push(`second ${sha}`));
+    bus.emit('story:commit', { storyId: 'US-001', sha: 'abc123', message: 'feat: US-001' });
+
+    expect(calls).toEqual(['first abc123', 'second abc123']);
+  });
+
+  it('should stop delivering after unsubscribing', () => {
+    const bus = new OrchestratorEventBus();
+    const listener = vi.fn();
+
+    const unsubscribe = bus.on('budget:exceeded', listener);
+    bus.emit('budget:exceeded', budgetCheck);
+    unsubscribe();
+    bus.emit('budget:exceeded', budgetCheck);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(budgetCheck);
+  });
+
+  it('should call once listeners a single time', () => {
+    const bus = new OrchestratorEventBus();
+    const listener = vi.fn();
+
+    bus.once('budget:exceeded', listener);
+    bus.emit('budget:exceeded', budgetCheck);
+    bus.emit('budget:exceeded', budgetCheck);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep notifying other listeners when one throws', () => {
+    const bus = new OrchestratorEventBus();
+    const listener = vi.fn();
+
+    bus.on('budget:exceeded', () => {
+      throw new Error('boom');
+    });
+    bus.on('budget:exceeded', listener);
+
+    expect(() => bus.emit('budget:exceeded', budgetCheck)).not.toThrow();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
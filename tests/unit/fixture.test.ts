@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureAgentBackend, loadFixture } from '../../src/agents/fixture.js';
+import { OutputParser } from '../../src/core/output-parser.js';
+
+describe('FixtureAgentBackend', () => {
+  const parser = new OutputParser();
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-fixture-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const writeFixture = (name: string, content: string) => {
+    writeFileSync(join(cwd, name), content);
+    return new FixtureAgentBackend(name);
+  };
+
+  it('should replay steps per story and repeat the last one', async () => {
+    const backend = writeFixture(
+      'fixture.json',
+      JSON.stringify({
+        stories: {
+          'US-001': [{ status: 'failure', error: 'tests fail' }, { status: 'success' }],
+        },
+      })
+    );
+    const run = async () =>
+      parser.parse((await backend.run({ prompt: '', cwd, storyId: 'US-001' })).output);
+
+    expect((await run()).structured).toMatchObject({ status: 'failure', error: 'tests fail' });
+    expect((await run()).structured?.status).toBe('success');
+    expect((await run()).structured?.status).toBe('success');
+  });
+
+  it('should use default steps for unscripted stories', async () => {
+    const backend = writeFixture('fixture.json', JSON.stringify({}));
+
+    const result = await backend.run({ prompt: '', cwd, storyId: 'US-009' });
+
+    expect(parser.parse(result.output).structured).toMatchObject({
+      status: 'success',
+      storyId: 'US-009',
+      nextAction: 'continue',
+    });
+  });
+
+  it('should follow a separate script for the reviewer', async () => {
+    const backend = writeFixture(
+      'fixture.json',
+      JSON.stringify({
+        stories: { 'US-001': [{ status: 'success' }] },
+        roles: {
+          reviewer: {
+            stories: { 'US-001': [{ criteria: [{ met: false, reason: 'No test' }] }] },
+          },
+        },
+      })
+    );
+
+    const review = await backend.run({ prompt: '', cwd, storyId: 'US-001', role: 'reviewer' });
+    const implementation = await backend.run({ prompt: '', cwd, storyId: 'US-001' });
+
+    expect(parser.parseReview(review.output)).toMatchObject({
+      storyId: 'US-001',
+      criteria: [{ met: false, reason: 'No test' }],
+    });
+    expect(parser.parse(implementation.output).structured?.status).toBe('success');
+  });
+
+  it('should apply file edits', async () => {
+    writeFileSync(join(cwd, 'old.txt'), 'old');
+    const backend = writeFixture(
+      'fixture.yaml',
+      ['default:', '  - files:', '      src/new.ts: "export {};"', '      old.txt: null'].join('\n')
+    );
+
+    const result = await backend.run({ prompt: '', cwd, storyId: 'US-001' });
+
+    expect(readFileSync(join(cwd, 'src/new.ts'), 'utf-8')).toBe('export {};');
+    expect(existsSync(join(cwd, 'old.txt'))).toBe(false);
+    expect(parser.parse(result.output).structured?.filesChanged).toEqual(['src/new.ts', 'old.txt']);
+  });
+
+  it('should simulate timeouts and usage', async () => {
+    const backend = writeFixture(
+      'fixture.json',
+      JSON.stringify({
+        default: [{ timeout: 'idle', model: 'claude-sonnet-4', usage: { inputTokens: 100 } }],
+      })
+    );
+
+    const result = await backend.run({ prompt: '', cwd });
+
+    expect(result.success).toBe(false);
+    expect(result.timeout).toBe('idle');
+    expect(result.stats?.usage.inputTokens).toBe(100);
+  });
+
+  it('should fail when the prompt lacks expected text', async () => {
+    const backend = writeFixture(
+      'fixture.json',
+      JSON.stringify({ default: [{ expectPromptContains: ['US-001', 'Acceptance Criteria'] }] })
+    );
+
+    const result = await backend.run({ prompt: 'Work on US-001', cwd });
+
+    expect(result.success).toBe(false);
+    expect(result.output).toContain('missing expected text: Acceptance Criteria');
+  });
+});
+
+describe('loadFixture', () => {
+  it('should report a missing file', () => {
+    expect(() => loadFixture('/nonexistent/fixture.json')).toThrow('Fixture file not found');
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GitManager } from '../../src/core/git-manager.js';
+
+describe('GitManager', () => {
+  let cwd: string;
+  let git: GitManager;
+
+  const run = (command: string) => execSync(command, { cwd, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-git-'));
+    run('git init -q');
+    run('git config user.name Test && git config user.email test@example.com');
+    writeFileSync(join(cwd, 'README.md'), 'initial\n');
+    run('git add -A && git commit -qm initial');
+    git = new GitManager(cwd);
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should ignore changes under .gushter', () => {
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+    expect(git.hasUncommittedChanges()).toBe(false);
+
+    writeFileSync(join(cwd, 'src.ts'), 'export {};\n');
+    expect(git.hasUncommittedChanges()).toBe(true);
+  });
+
+  it('should list files changed since a commit, committed or not', () => {
+    const start = git.getCurrentSha();
+    writeFileSync(join(cwd, 'committed.ts'), 'export {};\n');
+    git.commit('feat: committed');
+    writeFileSync(join(cwd, 'README.md'), 'changed\n');
+    writeFileSync(join(cwd, 'new.ts'), 'export {};\n');
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+
+    expect(git.getFilesChangedSince(start)).toEqual(['README.md', 'committed.ts', 'new.ts']);
+  });
+
+  it('should diff new and changed files without staging them', () => {
+    const start = git.getCurrentSha();
+    writeFileSync(join(cwd, '.gitignore'), '.gushter/\n');
+    writeFileSync(join(cwd, 'README.md'), 'changed\n');
+    writeFileSync(join(cwd, 'new.ts'), 'export {};\n');
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+
+    const diff = git.getDiffSince(start);
+
+    expect(diff).toContain('+changed');
+    expect(diff).toContain('+++ b/new.ts');
+    expect(diff).not.toContain('state.json');
+    expect(run('git diff --cached --name-only')).toBe('');
+    expect(run('git status --porcelain')).toContain('?? new.ts');
+  });
+
+  it('should commit with trailers and leave .gushter untracked', () => {
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+    writeFileSync(join(cwd, 'src.ts'), 'export {};\n');
+
+    const sha = git.commit('feat: US-003 - Say "hello"', {
+      'Gushter-Story': 'US-003',
+      'Gushter-Iteration': '7',
+    });
+
+    expect(sha).toBe(git.getCurrentSha());
+    expect(run('git log -1 --format=%s')).toBe('feat: US-003 - Say "hello"');
+    expect(run("git log -1 --format='%(trailers:key=Gushter-Story,valueonly)'")).toBe('US-003');
+    expect(run("git log -1 --format='%(trailers:key=Gushter-Iteration,valueonly)'")).toBe('7');
+    expect(run('git show --name-only --format= HEAD')).toBe('src.ts');
+  });
+
+  it('should commit when .gushter is gitignored', () => {
+    writeFileSync(join(cwd, '.gitignore'), '.gushter/\n');
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+
+    git.commit('chore: ignore gushter state');
+
+    expect(run('git show --name-only --format= HEAD')).toBe('.gitignore');
+    expect(git.hasUncommittedChanges()).toBe(false);
+  });
+
+  it('should leave .last-branch out of commits', () => {
+    writeFileSync(join(cwd, '.last-branch'), 'gushter/feature');
+    writeFileSync(join(cwd, 'src.ts'), 'export {};\n');
+
+    git.commit('feat: add src');
+
+    expect(run('git show --name-only --format= HEAD')).toBe('src.ts');
+    expect(git.hasUncommittedChanges()).toBe(false);
+  });
+
+  it('should remove only untracked files created since a snapshot', () => {
+    writeFileSync(join(cwd, '.gitignore'), 'ignored.log\n');
+    git.commit('chore: ignore logs');
+    writeFileSync(join(cwd, 'notes.md'), 'mine\n');
+    const tree = git.snapshotTree();
+    mkdirSync(join(cwd, '.gushter'));
+    mkdirSync(join(cwd, 'src', 'nested'), { recursive: true });
+    writeFileSync(join(cwd, '.gushter', 'state.json'), '{}');
+    writeFileSync(join(cwd, '.last-branch'), 'gushter/feature');
+    writeFileSync(join(cwd, 'ignored.log'), 'log\n');
+    writeFileSync(join(cwd, 'junk.ts'), 'export {};\n');
+    writeFileSync(join(cwd, 'src', 'nested', 'junk.ts'), 'export {};\n');
+
+    expect(git.removeUntrackedSince(tree).sort()).toEqual(['junk.ts', 'src/nested/junk.ts']);
+    expect(existsSync(join(cwd, 'src'))).toBe(false);
+    expect(run('git status --porcelain --ignored')).toBe(
+      ['?? .gushter/', '?? .last-branch', '?? notes.md', '!! ignored.log'].join('\n')
+    );
+  });
+
+  it('should commit only the given paths, skipping missing and ignored ones', () => {
+    writeFileSync(join(cwd, '.gitignore'), 'ignored.log\n');
+    git.commit('chore: ignore logs');
+    writeFileSync(join(cwd, 'prd.json'), '{}');
+    writeFileSync(join(cwd, 'ignored.log'), 'log\n');
+    writeFileSync(join(cwd, 'other.ts'), 'export {};\n');
+
+    expect(git.commitPaths(['prd.json', 'ignored.log', 'missing.txt'], 'chore: track')).toBe(true);
+    expect(run('git show --name-only --format=%s HEAD')).toBe('chore: track\n\nprd.json');
+    expect(run('git status --porcelain')).toBe('?? other.ts');
+    expect(git.commitPaths(['prd.json'], 'chore: track again')).toBe(false);
+  });
+
+  describe('worktrees', () => {
+    const addStoryWorktree = (story: string, file: string, content: string) => {
+      const path = join(cwd, '.gushter', 'worktrees', story);
+      git.addWorktree(path, `feature-${story}`);
+      writeFileSync(join(path, file), content);
+      new GitManager(path).commit(`wip: ${story}`);
+      return path;
+    };
+
+    it('should squash-merge a worktree branch without committing', () => {
+      const path = addStoryWorktree('US-001', 'one.ts', 'export {};\n');
+
+      expect(git.squashMerge('feature-US-001')).toBe(true);
+      expect(run('git diff --cached --name-only')).toBe('one.ts');
+      expect(run('git log -1 --format=%s')).toBe('initial');
+
+      git.removeWorktree(path, 'feature-US-001');
+      expect(existsSync(path)).toBe(false);
+      expect(git.branchExists('feature-US-001')).toBe(false);
+    });
+
+    it('should reset the tree when a squash merge conflicts', () => {
+      addStoryWorktree('US-001', 'README.md', 'one\n');
+      addStoryWorktree('US-002', 'README.md', 'two\n');
+
+      expect(git.squashMerge('feature-US-001')).toBe(true);
+      git.commit('feat: US-001');
+
+      expect(git.squashMerge('feature-US-002')).toBe(false);
+      expect(git.hasUncommittedChanges()).toBe(false);
+      expect(readFileSync(join(cwd, 'README.md'), 'utf-8')).toBe('one\n');
+    });
+
+    it('should add a merge driver only once', () => {
+      git.setMergeDriver('progress.txt', 'union');
+      git.setMergeDriver('progress.txt', 'union');
+
+      expect(readFileSync(join(cwd, '.git', 'info', 'attributes'), 'utf-8')).toContain(
+        'progress.txt merge=union\n'
+      );
+      expect(run('git check-attr merge progress.txt')).toBe('progress.txt: merge: union');
+    });
+  });
+});
@@ -0,0 +1,396 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GushterConfigSchema } from '../../src/config/schema.js';
+import {
+  ApprovalDecision,
+  Orchestrator,
+  OrchestratorOptions,
+} from '../../src/core/orchestrator.js';
+import { UserStory } from '../../src/types/prd.js';
+import { logger } from '../../src/utils/logger.js';
+
+const story = (id: string, overrides: Partial<UserStory> = {}): UserStory => ({
+  id,
+  title: `Story ${id}`,
+  description: `Implements ${id}`,
+  acceptanceCriteria: [`${id} works`],
+  priority: 1,
+  passes: false,
+  notes: '',
+  ...overrides,
+});
+
+describe('Orchestrator', () => {
+  let cwd: string;
+
+  const run = (command: string) => execSync(command, { cwd, encoding: 'utf-8' }).trim();
+  const read = (file: string) => readFileSync(join(cwd, file), 'utf-8');
+
+  const createOrchestrator = (
+    fixture: unknown,
+    config: Record<string, unknown> = {},
+    options: Partial<OrchestratorOptions> = {}
+  ) => {
+    writeFileSync(join(cwd, 'fixture.json'), JSON.stringify(fixture));
+    return new Orchestrator({
+      config: GushterConfigSchema.parse({
+        retry: { initialDelayMs: 0, timeoutDelayMs: 0 },
+        agent: { type: 'fixture', fixturePath: 'fixture.json' },
+        ...config,
+      }),
+      cwd,
+      dryRun: false,
+      // Keeps agent output off the console, as the dashboard does
+      showDashboard: true,
+      ...options,
+    });
+  };
+
+  const writePrd = (stories: UserStory[]) => {
+    const prd = {
+      project: 'Demo',
+      branchName: 'gushter/demo',
+      description: 'Demo',
+      userStories: stories,
+    };
+    writeFileSync(join(cwd, 'prd.json'), JSON.stringify(prd, null, 2));
+    run('git add prd.json && git commit -qm "docs: add PRD"');
+  };
+
+  beforeAll(() => {
+    logger.setSilent(true);
+  });
+
+  afterAll(() => {
+    logger.setSilent(false);
+  });
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-orchestrator-'));
+    run('git init -q -b main');
+    run('git config user.name Test && git config user.email test@example.com');
+    writeFileSync(join(cwd, '.gitignore'), '.gushter/\nfixture.json\n');
+    writeFileSync(join(cwd, 'CLAUDE.md'), 'Implement {{story.id}}\n');
+    run('git add -A && git commit -qm initial');
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should roll back a failed attempt, including new files, before retrying', async () => {
+    writePrd([story('US-001')]);
+    const orchestrator = createOrchestrator({
+      stories: {
+        'US-001': [
+          { status: 'failure', error: 'tests fail', files: { 'junk.ts': 'junk', 'CLAUDE.md': 'x' } },
+          { files: { 'feature.ts': 'export {};\n' } },
+        ],
+      },
+    });
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 2 });
+    expect(existsSync(join(cwd, 'junk.ts'))).toBe(false);
+    expect(read('CLAUDE.md')).toBe('Implement {{story.id}}\n');
+    expect(run('git show --name-only --format= HEAD').split('\n').sort()).toEqual([
+      'feature.ts',
+      'prd.json',
+      'progress.txt',
+    ]);
+    expect(run('git status --porcelain')).toBe('?? .last-branch');
+  });
+
+  it('should keep untracked files from before the iteration when rolling back', async () => {
+    writePrd([story('US-001')]);
+    writeFileSync(join(cwd, 'my-notes.md'), 'mine\n');
+    const orchestrator = createOrchestrator({
+      stories: {
+        'US-001': [
+          { status: 'failure', files: { 'junk.ts': 'junk', 'my-notes.md': 'mine\nand more\n' } },
+          { files: { 'feature.ts': 'export {};\n' } },
+        ],
+      },
+    });
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 2 });
+    expect(existsSync(join(cwd, 'junk.ts'))).toBe(false);
+    expect(read('my-notes.md')).toBe('mine\nand more\n');
+  });
+
+  it('should ask the agent to commit when autoCommit is off', async () => {
+    writePrd([story('US-001')]);
+    const prompt = '{{story.id}}{{^autoCommit}}: commit your work{{/autoCommit}}';
+    writeFileSync(join(cwd, 'CLAUDE.md'), prompt);
+    run('git commit -qam "docs: prompt"');
+    const orchestrator = createOrchestrator(
+      { default: [{ expectPromptContains: ['US-001: commit your work'] }] },
+      { git: { autoCommit: false } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result.success).toBe(true);
+    expect(run('git log -1 --format=%s')).toBe('docs: prompt');
+  });
+
+  it('should retry a parallel story whose merge conflicts from the latest commit', async () => {
+    writePrd([story('US-001'), story('US-002')]);
+    const orchestrator = createOrchestrator(
+      {
+        stories: {
+          'US-001': [{ files: { 'shared.ts': 'one\n' } }],
+          'US-002': [
+            { files: { 'shared.ts': 'two\n' }, delayMs: 300 },
+            { files: { 'shared.ts': 'one\ntwo\n' } },
+          ],
+        },
+      },
+      { parallel: { workers: 2, setupCommands: ['sleep 0.1'] } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 3 });
+    expect(
+      orchestrator.getState().stories['US-002']?.attempts.map((a) => a.failureReason ?? a.status)
+    ).toEqual(['conflict', 'completed']);
+    expect(read('shared.ts')).toBe('one\ntwo\n');
+    expect(run('git log --format=%s main..')).toBe(
+      'feat: US-002 - Story US-002\nfeat: US-001 - Story US-001\nchore: track the PRD and progress log'
+    );
+    expect(run('git worktree list').split('\n')).toHaveLength(1);
+  });
+
+  it('should merge parallel stories that both append to an uncommitted progress log', async () => {
+    writePrd([story('US-001'), story('US-002')]);
+    const header = '# Progress\n---\n';
+    writeFileSync(join(cwd, 'progress.txt'), header);
+    const orchestrator = createOrchestrator(
+      {
+        stories: {
+          'US-001': [{ files: { 'one.ts': 'one\n', 'progress.txt': `${header}US-001 done\n` } }],
+          'US-002': [
+            { files: { 'two.ts': 'two\n', 'progress.txt': `${header}US-002 done\n` }, delayMs: 300 },
+          ],
+        },
+      },
+      { parallel: { workers: 2 } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 2 });
+    expect(read('progress.txt')).toBe(`${header}US-001 done\nUS-002 done\n`);
+    expect(run('git status --porcelain')).toBe('?? .last-branch');
+  });
+
+  it('should reset the merged changes when a parallel story fails to commit', async () => {
+    writePrd([story('US-001'), story('US-002')]);
+    writeFileSync(join(cwd, 'progress.txt'), '# Progress\n');
+    run('git add -A && git commit -qm "chore: track run files"');
+    // Signing with a failing program breaks commits in the main checkout only
+    run('git config extensions.worktreeConfig true');
+    run('git config --worktree commit.gpgSign true && git config --worktree gpg.program false');
+    const orchestrator = createOrchestrator(
+      { default: [{ files: { 'feature.ts': 'export {};\n' } }] },
+      { maxRetriesPerStory: 1, parallel: { workers: 2 } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: false, blockedStories: ['US-001', 'US-002'] });
+    expect(orchestrator.getState().stories['US-001']?.attempts[0]?.error).toContain(
+      'Git command failed'
+    );
+    expect(run('git status --porcelain')).toBe('?? .last-branch');
+    expect(run('git log -1 --format=%s')).toBe('chore: track run files');
+  });
+
+  it('should keep changes when interrupted during verification and verify them on resume', async () => {
+    writePrd([story('US-001')]);
+    const fixture = { default: [{ files: { 'feature.ts': 'export {};\n' } }] };
+    const config = {
+      verification: { commands: [{ name: 'test', command: 'test -f feature.ts && sleep 1' }] },
+    };
+    const first = createOrchestrator(fixture, config);
+    first.events.on('verification:start', () => first.interrupt());
+
+    const interrupted = await first.run();
+
+    expect(interrupted).toMatchObject({ success: false, interrupted: true });
+    expect(first.getState().stories['US-001']?.attempts.map((a) => a.status)).toEqual([
+      'interrupted',
+    ]);
+    expect(read('feature.ts')).toBe('export {};\n');
+
+    const resumed = createOrchestrator({ default: [{ status: 'failure' }] }, config, {
+      resume: true,
+      chooseRecovery: async () => 'verify',
+    });
+    const result = await resumed.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 0 });
+    expect(resumed.getState().stories['US-001']?.attempts.map((a) => a.status)).toEqual([
+      'completed',
+    ]);
+    expect(run('git show --name-only --format= HEAD')).toContain('feature.ts');
+  });
+
+  it('should fail a review that changes files, and count reviewer timeouts as timeouts', async () => {
+    writePrd([story('US-001')]);
+    const orchestrator = createOrchestrator(
+      {
+        default: [{ files: { 'feature.ts': 'export {};\n' } }],
+        roles: {
+          reviewer: {
+            default: [
+              { criteria: [{ met: true }], files: { 'sneaky.ts': 'export {};\n' } },
+              { timeout: 'idle' },
+              { criteria: [{ met: true }] },
+            ],
+          },
+        },
+      },
+      { review: { enabled: true } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 3 });
+    const attempts = orchestrator.getState().stories['US-001']?.attempts ?? [];
+    expect(attempts.map((a) => a.failureReason ?? a.status)).toEqual([
+      'review',
+      'timeout',
+      'completed',
+    ]);
+    expect(attempts[0]?.error).toContain('the reviewer changed files it must only read: sneaky.ts');
+    expect(attempts[2]).toMatchObject({ retryCount: 1, timeoutCount: 1 });
+    expect(existsSync(join(cwd, 'sneaky.ts'))).toBe(false);
+    expect(run('git show --name-only --format= HEAD')).not.toContain('sneaky.ts');
+  }, 15000);
+
+  it('should fail a planner that changes files and hand the next plan to the implementer', async () => {
+    writePrd([story('US-001')]);
+    const orchestrator = createOrchestrator(
+      {
+        default: [
+          { expectPromptContains: ['1. Add feature.ts'], files: { 'feature.ts': 'export {};\n' } },
+        ],
+        roles: {
+          planner: {
+            default: [
+              { plan: '1. Add junk', files: { 'planner-junk.ts': 'junk' } },
+              { plan: '1. Add feature.ts' },
+            ],
+          },
+        },
+      },
+      { plan: { enabled: true } }
+    );
+
+    const result = await orchestrator.run();
+
+    expect(result).toMatchObject({ success: true, iterationsUsed: 2 });
+    const attempts = orchestrator.getState().stories['US-001']?.attempts ?? [];
+    expect(attempts.map((a) => a.failureReason ?? a.status)).toEqual(['agent', 'completed']);
+    expect(attempts[0]?.error).toBe(
+      'Planning failed: the planner changed files it must only read: planner-junk.ts'
+    );
+    expect(existsSync(join(cwd, 'planner-junk.ts'))).toBe(false);
+    expect(run('git show --name-only --format= HEAD')).not.toContain('planner-junk.ts');
+  });
+
+  describe('approval', () => {
+    const fixture = { default: [{ files: { 'feature.ts': 'export {};\n' } }] };
+
+    it('should retry a rejected story and commit it once approved', async () => {
+      writePrd([story('US-001')]);
+      const decisions: ApprovalDecision[] = [
+        { action: 'reject', feedback: 'Name it better' },
+        { action: 'approve' },
+      ];
+      const orchestrator = createOrchestrator(
+        fixture,
+        { approval: 'per-story' },
+        { requestApproval: async () => decisions.shift() ?? { action: 'approve' } }
+      );
+
+      const result = await orchestrator.run();
+
+      expect(result.success).toBe(true);
+      const attempts = orchestrator.getState().stories['US-001']?.attempts ?? [];
+      expect(attempts.map((a) => a.failureReason ?? a.status)).toEqual(['rejected', 'completed']);
+      expect(attempts[0]?.error).toBe('Rejected in review: Name it better');
+    });
+
+    it('should report a pause or stop asked for during the prompt', async () => {
+      writePrd([story('US-001')]);
+      const orchestrator = createOrchestrator(
+        fixture,
+        { approval: 'per-story' },
+        {
+          requestApproval: async () => {
+            orchestrator.togglePause();
+            return { action: 'approve' };
+          },
+        }
+      );
+      const seen: Array<{ paused: boolean; stopping: boolean }> = [];
+      orchestrator.events.on('approval:complete', () => {
+        seen.push({ paused: orchestrator.isPaused(), stopping: orchestrator.isStopping() });
+        orchestrator.interrupt();
+        seen.push({ paused: orchestrator.isPaused(), stopping: orchestrator.isStopping() });
+      });
+
+      const result = await orchestrator.run();
+
+      expect(seen).toEqual([
+        { paused: true, stopping: false },
+        { paused: true, stopping: true },
+      ]);
+      expect(result).toMatchObject({ success: true, interrupted: true });
+    });
+
+    it('should interrupt, not fail, when the prompt is closed by a stop', async () => {
+      writePrd([story('US-001')]);
+      const closePrompt = async (): Promise<never> => {
+        orchestrator.interrupt();
+        throw new Error('The prompt was closed');
+      };
+      const orchestrator = createOrchestrator(
+        fixture,
+        { approval: 'per-story' },
+        { requestApproval: closePrompt }
+      );
+
+      const result = await orchestrator.run();
+
+      expect(result).toMatchObject({ success: false, interrupted: true });
+      expect(orchestrator.getState().stories['US-001']?.attempts.map((a) => a.status)).toEqual([
+        'interrupted',
+      ]);
+      expect(read('feature.ts')).toBe('export {};\n');
+
+      const resumed = createOrchestrator(fixture, {}, {
+        resume: true,
+        chooseRecovery: async () => {
+          resumed.interrupt();
+          throw new Error('The prompt was closed');
+        },
+      });
+
+      expect(await resumed.run()).toMatchObject({ interrupted: true, iterationsUsed: 0 });
+      expect(resumed.getState().stories['US-001']?.attempts.map((a) => a.status)).toEqual([
+        'interrupted',
+      ]);
+      expect(read('feature.ts')).toBe('export {};\n');
+    });
+  });
+});
@@ -55,6 +55,62 @@ More output after
     });
   });
 
+  describe('parseReview', () => {
+    it('should parse the review block', () => {
+      const output = `Looks fine.
+
+\`\`\`json:gushter-review
+{
+  "storyId": "US-001",
+  "criteria": [
+    { "criterion": "Adds login", "met": true, "reason": "login.ts" },
+    { "met": false }
+  ]
+}
+\`\`\`
+`;
+
+      expect(parser.parseReview(output)).toEqual({
+        storyId: 'US-001',
+        criteria: [
+          { criterion: 'Adds login', met: true, reason: 'login.ts' },
+          { criterion: '', met: false, reason: '' },
+        ],
+        summary: '',
+      });
+    });
+
+    it('should return null without a valid review block', () => {
+      expect(parser.parseReview('No verdict')).toBeNull();
+      expect(parser.parseReview('```json:gushter-review\n{"storyId": "US-001"}\n```')).toBeNull();
+    });
+  });
+
+  describe('parsePlan', () => {
+    it('should keep code blocks inside the plan', () => {
+      const output = [
+        'Here is the plan.',
+        '',
+        '````markdown:gushter-plan',
+        '1. Add login',
+        '',
+        '```ts',
+        'export const login = () => true;',
+        '```',
+        '````',
+      ].join('\n');
+
+      expect(parser.parsePlan(output)).toBe(
+        '1. Add login\n\n```ts\nexport const login = () => true;\n```'
+      );
+    });
+
+    it('should return null without a plan', () => {
+      expect(parser.parsePlan('No plan')).toBeNull();
+      expect(parser.parsePlan('````markdown:gushter-plan\n\n````')).toBeNull();
+    });
+  });
+
   describe('isSuccess', () => {
     it('should return true for success status', () => {
       const result = parser.parse(`
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentBackend } from '../../src/agents/backend.js';
+import { FixtureAgentBackend } from '../../src/agents/fixture.js';
+import { AgentEvent } from '../../src/agents/stream-json.js';
+import { AiRunner } from '../../src/core/ai-runner.js';
+import { StoryPlanner } from '../../src/core/planner.js';
+import { PromptContext, PromptRenderer } from '../../src/core/prompt-renderer.js';
+import { IterationTranscript } from '../../src/core/transcript.js';
+import { Iteration } from '../../src/types/state.js';
+
+describe('StoryPlanner', () => {
+  let cwd: string;
+  let context: PromptContext;
+
+  const run = (command: string) => execSync(command, { cwd, encoding: 'utf-8' }).trim();
+
+  const iteration: Iteration = {
+    storyId: 'US-001',
+    number: 2,
+    status: 'in_progress',
+    startSha: 'abc1234',
+    retryCount: 1,
+    timeoutCount: 0,
+  };
+
+  const createPlanner = (fixture: unknown) => {
+    writeFileSync(join(cwd, 'fixture.json'), JSON.stringify(fixture));
+    const aiRunner = new AiRunner({
+      cwd,
+      backend: new FixtureAgentBackend('fixture.json'),
+      echoOutput: false,
+    });
+    const renderer = new PromptRenderer({
+      cwd,
+      templatePath: 'PLAN.md',
+      progressPath: 'progress.txt',
+    });
+    return new StoryPlanner({ cwd, aiRunner, renderer, model: 'claude-opus-4' });
+  };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-plan-'));
+    run('git init -q');
+    run('git config user.name Test && git config user.email test@example.com');
+    run('git commit -q --allow-empty -m initial');
+    writeFileSync(join(cwd, 'PLAN.md'), 'Plan {{story.id}}\n{{#reviewFailures}}{{reviewFailures}}{{/reviewFailures}}');
+    context = {
+      prd: { project: 'demo', branchName: 'gushter/feature', description: '', userStories: [] },
+      story: {
+        id: 'US-001',
+        title: 'Login',
+        description: 'Add login',
+        acceptanceCriteria: ['Has a test'],
+        priority: 1,
+        passes: false,
+        notes: '',
+      },
+      iteration: 2,
+      maxIterations: 10,
+      retryCount: 1,
+      previousAttempt: {
+        ...iteration,
+        status: 'failed',
+        error: 'Review failed',
+        reviewFailures: [{ criterion: 'Has a test', reason: 'No test file' }],
+      },
+    };
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should plan with the retry feedback and save the plan', async () => {
+    const planner = createPlanner({
+      roles: {
+        planner: {
+          default: [
+            {
+              plan: '1. Add login.test.ts',
+              expectPromptContains: ['Plan US-001', '**Has a test**: No test file'],
+              usage: { inputTokens: 10 },
+            },
+          ],
+        },
+      },
+    });
+    const transcript = new IterationTranscript(cwd, 'run', 2, 'US-001');
+
+    const result = await planner.plan(context, iteration, transcript);
+
+    expect(result.plan).toBe('1. Add login.test.ts');
+    expect(result.agentResult.stats?.model).toBe('claude-opus-4');
+    expect(transcript.readPlan()).toBe('1. Add login.test.ts');
+  });
+
+  it('should fail without a plan block', async () => {
+    const planner = createPlanner({ roles: { planner: { default: [{ output: 'Thinking...' }] } } });
+
+    const result = await planner.plan(
+      context,
+      iteration,
+      new IterationTranscript(cwd, 'run', 2, 'US-001')
+    );
+
+    expect(result).toMatchObject({
+      plan: null,
+      error: 'the planner gave no markdown:gushter-plan block',
+    });
+  });
+
+  it('should record the planner agent events and pass them on', async () => {
+    const event: AgentEvent = { type: 'tool_use', name: 'Read', input: { file_path: 'src/a.ts' } };
+    const backend: AgentBackend = {
+      name: 'events',
+      run: async (request) => {
+        request.onEvent?.(event);
+        const output = '````markdown:gushter-plan\n1. Read a.ts\n````';
+        return { output, exitCode: 0, success: true };
+      },
+      runInteractive: async () => 0,
+    };
+    const aiRunner = new AiRunner({ cwd, backend, echoOutput: false });
+    const renderer = new PromptRenderer({
+      cwd,
+      templatePath: 'PLAN.md',
+      progressPath: 'progress.txt',
+    });
+    const planner = new StoryPlanner({ cwd, aiRunner, renderer });
+    const transcript = new IterationTranscript(cwd, 'run', 2, 'US-001');
+    const events: AgentEvent[] = [];
+
+    const result = await planner.plan(context, iteration, transcript, {
+      onEvent: (e) => events.push(e),
+    });
+
+    expect(result.plan).toBe('1. Read a.ts');
+    expect(events).toEqual([event]);
+    expect(readFileSync(join(cwd, transcript.dir, 'plan-events.jsonl'), 'utf-8')).toBe(
+      JSON.stringify(event) + '\n'
+    );
+  });
+
+  it('should fail a planner that changes files, whatever its plan', async () => {
+    const planner = createPlanner({
+      roles: { planner: { default: [{ plan: '1. Add login', files: { 'login.ts': 'x' } }] } },
+    });
+    const transcript = new IterationTranscript(cwd, 'run', 2, 'US-001');
+
+    const result = await planner.plan(context, iteration, transcript);
+
+    expect(result).toMatchObject({
+      plan: null,
+      error: 'the planner changed files it must only read: login.ts',
+      changedFiles: ['login.ts'],
+    });
+    expect(existsSync(join(cwd, transcript.dir, 'plan.md'))).toBe(false);
+  });
+});
+
+describe('PromptRenderer plan', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-plan-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const render = (template: string, plan?: string) => {
+    writeFileSync(join(cwd, 'CLAUDE.md'), template);
+    const renderer = new PromptRenderer({
+      cwd,
+      templatePath: 'CLAUDE.md',
+      progressPath: 'progress.txt',
+    });
+    return renderer.render({
+      prd: { project: 'demo', branchName: 'gushter/feature', description: '', userStories: [] },
+      story: {
+        id: 'US-001',
+        title: 'Login',
+        description: '',
+        acceptanceCriteria: [],
+        priority: 1,
+        passes: false,
+        notes: '',
+      },
+      iteration: 1,
+      maxIterations: 10,
+      retryCount: 0,
+      plan,
+    });
+  };
+
+  it('should append the plan to templates that do not place it', () => {
+    const prompt = render('Implement {{story.id}}', '1. Add login');
+
+    expect(prompt).toContain('## Plan');
+    expect(prompt).toContain('1. Add login');
+    expect(render('Implement {{story.id}}')).not.toContain('## Plan');
+  });
+
+  it('should leave the plan where the template puts it', () => {
+    expect(render('{{story.id}}: {{plan}}', '1. Add login')).toBe('US-001: 1. Add login');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { findDependencyErrors, PrdSchema, UserStorySchema } from '../../src/types/prd.js';
+
+describe('PRD dependencies', () => {
+  const story = (id: string, dependsOn?: string[]) => ({
+    id,
+    title: id,
+    description: '',
+    acceptanceCriteria: [],
+    priority: 1,
+    passes: false,
+    dependsOn,
+  });
+
+  const prd = (stories: ReturnType<typeof story>[]) => ({
+    project: 'TestProject',
+    branchName: 'gushter/test',
+    description: 'Test PRD',
+    userStories: stories,
+  });
+
+  it('should accept stories without or with valid dependencies', () => {
+    const parsed = PrdSchema.parse(prd([story('US-001'), story('US-002', ['US-001'])]));
+
+    expect(parsed.userStories[0]?.dependsOn).toBeUndefined();
+    expect(parsed.userStories[1]?.dependsOn).toEqual(['US-001']);
+  });
+
+  it('should report dependencies on unknown stories', () => {
+    expect(findDependencyErrors([story('US-001', ['US-009'])])).toEqual([
+      'Story US-001 depends on unknown story US-009',
+    ]);
+  });
+
+  it('should report dependency cycles', () => {
+    const errors = findDependencyErrors([
+      story('US-001', ['US-003']),
+      story('US-002', ['US-001']),
+      story('US-003', ['US-002']),
+      story('US-004', ['US-004']),
+    ]);
+
+    expect(errors).toEqual([
+      'Dependency cycle: US-001 -> US-003 -> US-002 -> US-001',
+      'Dependency cycle: US-004 -> US-004',
+    ]);
+  });
+
+  it('should reject a PRD with invalid dependencies', () => {
+    const result = PrdSchema.safeParse(
+      prd([story('US-001', ['US-002']), story('US-002', ['US-001'])])
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]?.message).toBe('Dependency cycle: US-001 -> US-002 -> US-001');
+  });
+});
+
+describe('UserStorySchema roles', () => {
+  const story = (roles: string[]) => ({
+    id: 'US-001',
+    title: 'Login',
+    description: '',
+    acceptanceCriteria: [],
+    priority: 1,
+    passes: false,
+    roles,
+  });
+
+  it('should accept roles that include the implementer', () => {
+    expect(UserStorySchema.parse(story(['planner', 'implementer'])).roles).toEqual([
+      'planner',
+      'implementer',
+    ]);
+  });
+
+  it('should reject roles without the implementer', () => {
+    expect(() => UserStorySchema.parse(story(['planner', 'reviewer']))).toThrow(
+      'roles must include implementer'
+    );
+  });
+});
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
 import {
   calculateBackoffDelay,
+  calculateRetryDelay,
   RetryTracker,
+  sleep,
   withRetry,
 } from '../../src/utils/retry.js';
 
@@ -143,3 +145,38 @@ describe('withRetry', () => {
     expect(fn).toHaveBeenCalledTimes(3);
   });
 });
+
+describe('calculateRetryDelay', () => {
+  const config = {
+    initialDelayMs: 1000,
+    backoffMultiplier: 2,
+    maxDelayMs: 30000,
+    timeoutDelayMs: 5000,
+  };
+
+  it('should use a fixed delay for timeouts', () => {
+    expect(calculateRetryDelay('timeout', 1, config)).toBe(5000);
+    expect(calculateRetryDelay('timeout', 4, config)).toBe(5000);
+  });
+
+  it('should back off exponentially for other failures', () => {
+    expect(calculateRetryDelay('verification', 1, config)).toBe(1000);
+    expect(calculateRetryDelay('agent', 3, config)).toBe(4000);
+  });
+
+  it('should retry a rejected story at once', () => {
+    expect(calculateRetryDelay('rejected', 2, config)).toBe(0);
+  });
+});
+
+describe('sleep', () => {
+  it('should end early when its signal is aborted', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 20);
+
+    await sleep(10_000, controller.signal);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
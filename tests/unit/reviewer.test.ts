@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FixtureAgentBackend } from '../../src/agents/fixture.js';
+import { AiRunner } from '../../src/core/ai-runner.js';
+import { StoryReviewer, findUnmetCriteria } from '../../src/core/reviewer.js';
+import { IterationTranscript } from '../../src/core/transcript.js';
+import { Prd } from '../../src/types/prd.js';
+import { Iteration } from '../../src/types/state.js';
+
+const prd: Prd = {
+  project: 'demo',
+  branchName: 'gushter/feature',
+  description: 'Demo',
+  userStories: [
+    {
+      id: 'US-001',
+      title: 'Login',
+      description: 'Add login',
+      acceptanceCriteria: ['login() returns true', 'Has a test'],
+      priority: 1,
+      passes: false,
+      notes: '',
+    },
+  ],
+};
+const story = prd.userStories[0]!;
+
+describe('findUnmetCriteria', () => {
+  it('should match verdicts to criteria by position', () => {
+    const failures = findUnmetCriteria(story.acceptanceCriteria, {
+      storyId: 'US-001',
+      criteria: [
+        { criterion: 'login', met: true, reason: '' },
+        { criterion: 'test', met: false, reason: 'No test file' },
+      ],
+      summary: '',
+    });
+
+    expect(failures).toEqual([{ criterion: 'Has a test', reason: 'No test file' }]);
+  });
+
+  it('should count a criterion without a verdict as unmet', () => {
+    const failures = findUnmetCriteria(story.acceptanceCriteria, {
+      storyId: 'US-001',
+      criteria: [{ criterion: '', met: true, reason: '' }],
+      summary: '',
+    });
+
+    expect(failures).toEqual([{ criterion: 'Has a test', reason: 'The reviewer gave no verdict' }]);
+  });
+});
+
+describe('StoryReviewer', () => {
+  let cwd: string;
+  let iteration: Iteration;
+
+  const run = (command: string) => execSync(command, { cwd, encoding: 'utf-8' }).trim();
+
+  const createReviewer = (fixture: unknown) => {
+    writeFileSync(join(cwd, '.git', 'fixture.json'), JSON.stringify(fixture));
+    const backend = new FixtureAgentBackend('.git/fixture.json');
+    const aiRunner = new AiRunner({ cwd, backend, echoOutput: false });
+    return new StoryReviewer({ cwd, aiRunner, maxDiffLines: 500 });
+  };
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-review-'));
+    run('git init -q');
+    run('git config user.name Test && git config user.email test@example.com');
+    run('git commit -q --allow-empty -m initial');
+    iteration = {
+      storyId: 'US-001',
+      number: 1,
+      status: 'in_progress',
+      startSha: run('git rev-parse HEAD'),
+      retryCount: 0,
+      timeoutCount: 0,
+    };
+    writeFileSync(join(cwd, 'login.ts'), 'export const login = () => true;\n');
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should show the reviewer the criteria and the diff', async () => {
+    const reviewer = createReviewer({
+      roles: {
+        reviewer: {
+          default: [
+            {
+              criteria: [{ met: true }, { met: true }],
+              expectPromptContains: ['2. Has a test', '+export const login'],
+            },
+          ],
+        },
+      },
+    });
+    const transcript = new IterationTranscript(cwd, 'run', 1, 'US-001');
+
+    const result = await reviewer.review(prd, story, iteration, transcript);
+
+    expect(result).toMatchObject({ passed: true, failures: [] });
+    expect(readFileSync(join(cwd, transcript.dir, 'review-prompt.md'), 'utf-8')).toContain(
+      '- login.ts'
+    );
+  });
+
+  it('should fail when the reviewer gives no verdict', async () => {
+    const reviewer = createReviewer({ roles: { reviewer: { default: [{ output: 'LGTM' }] } } });
+
+    const result = await reviewer.review(
+      prd,
+      story,
+      iteration,
+      new IterationTranscript(cwd, 'run', 1, 'US-001')
+    );
+
+    expect(result).toMatchObject({
+      passed: false,
+      failures: [],
+      error: 'the reviewer gave no json:gushter-review verdict',
+    });
+  });
+
+  it('should fail when the reviewer changes files, even if it passes the story', async () => {
+    const reviewer = createReviewer({
+      roles: {
+        reviewer: {
+          default: [
+            {
+              criteria: [{ met: true }, { met: true }],
+              files: { 'login.ts': 'export const login = () => false;\n', 'extra.ts': '' },
+            },
+          ],
+        },
+      },
+    });
+
+    const result = await reviewer.review(
+      prd,
+      story,
+      iteration,
+      new IterationTranscript(cwd, 'run', 1, 'US-001')
+    );
+
+    expect(result).toMatchObject({
+      passed: false,
+      failures: [],
+      changedFiles: ['extra.ts', 'login.ts'],
+      error: 'the reviewer changed files it must only read: extra.ts, login.ts',
+    });
+  });
+});
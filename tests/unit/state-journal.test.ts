@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { appendFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInitialState } from '../../src/types/state.js';
+import { JournalEvent } from '../../src/types/journal.js';
+import {
+  StateJournal,
+  applyJournalEvent,
+  replayJournal,
+} from '../../src/core/state-journal.js';
+import { StateMachine } from '../../src/core/state-machine.js';
+
+const readState = (cwd: string) =>
+  JSON.parse(readFileSync(join(cwd, '.gushter', 'state.json'), 'utf-8'));
+
+describe('StateMachine journal', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-journal-'));
+    execSync('git init -q && git -c user.name=t -c user.email=t@e commit -q --allow-empty -m initial', {
+      cwd,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should journal every transition and replay to the saved state', () => {
+    const machine = new StateMachine({ cwd, maxIterations: 10, branchName: 'gushter/feature' });
+    machine.startIteration('US-001');
+    machine.failIteration('US-001', 'Tests fail', 1, { reason: 'verification' });
+    machine.unblockStory('US-001');
+    machine.startIteration('US-001');
+    machine.recordAgentStats(
+      'US-001',
+      { turns: 3, toolCalls: {}, filesEdited: [], usage: { inputTokens: 10, outputTokens: 5, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 } },
+      0.5
+    );
+    machine.completeIteration('US-001');
+    machine.startIteration('US-002');
+    machine.markRolledBack('US-002');
+
+    const events = new StateJournal(cwd).read();
+
+    expect(events.map((e) => e.type)).toEqual([
+      'run:started',
+      'iteration:started',
+      'iteration:failed',
+      'story:unblocked',
+      'iteration:started',
+      'iteration:stats',
+      'iteration:completed',
+      'iteration:started',
+      'iteration:rolled_back',
+    ]);
+    expect(replayJournal(events)).toEqual(readState(cwd));
+  });
+
+  it('should answer when a story first failed', () => {
+    const machine = new StateMachine({ cwd, maxIterations: 10, branchName: 'gushter/feature' });
+    machine.startIteration('US-004');
+    machine.failIteration('US-004', 'Lint errors', 3);
+    machine.startIteration('US-004');
+    machine.failIteration('US-004', 'Tests fail', 3);
+
+    const firstFailure = new StateJournal(cwd)
+      .read()
+      .find((e) => e.type === 'iteration:failed' && e.storyId === 'US-004');
+
+    expect(firstFailure).toMatchObject({ error: 'Lint errors', reason: 'error' });
+    expect(firstFailure?.at).toBe(machine.getAttempts('US-004')[0]?.completedAt);
+  });
+
+  it('should start the journal from a snapshot when resuming older state', () => {
+    const state = createInitialState('gushter/feature', 10);
+    state.currentIteration = 4;
+    mkdirSync(join(cwd, '.gushter'));
+    writeFileSync(join(cwd, '.gushter', 'state.json'), JSON.stringify(state));
+
+    const machine = new StateMachine({
+      cwd,
+      maxIterations: 20,
+      branchName: 'gushter/feature',
+      resume: true,
+    });
+    machine.startIteration('US-001');
+
+    const events = new StateJournal(cwd).read();
+    expect(events.map((e) => e.type)).toEqual([
+      'state:snapshot',
+      'run:resumed',
+      'iteration:started',
+    ]);
+    expect(replayJournal(events)).toMatchObject({ currentIteration: 5, maxIterations: 20 });
+    expect(replayJournal(events)).toEqual(readState(cwd));
+  });
+});
+
+describe('applyJournalEvent', () => {
+  const at = '2026-01-01T00:00:00.000Z';
+
+  const replay = (...events: Array<Omit<JournalEvent, 'at'>>) =>
+    replayJournal([
+      { type: 'run:started', at, branchName: 'gushter/feature', maxIterations: 10 },
+      ...events.map((event) => ({ ...event, at }) as JournalEvent),
+    ]);
+
+  it('should reject events before a run started', () => {
+    expect(() =>
+      applyJournalEvent(undefined, { type: 'story:unblocked', at, storyId: 'US-001' })
+    ).toThrow('comes before any run started');
+  });
+
+  it('should roll back a story and every attempt after it', () => {
+    const state = replay(
+      { type: 'iteration:started', storyId: 'US-001', startSha: 'aaa' },
+      { type: 'iteration:completed', storyId: 'US-001', endSha: 'bbb' },
+      { type: 'iteration:started', storyId: 'US-002', startSha: 'bbb' },
+      { type: 'iteration:completed', storyId: 'US-002', endSha: 'ccc' },
+      { type: 'iteration:started', storyId: 'US-001', startSha: 'ccc' },
+      { type: 'iteration:failed', storyId: 'US-001', error: 'x', reason: 'agent', maxAttempts: 1 },
+      { type: 'rollback', storyId: 'US-002' }
+    );
+
+    expect(state?.stories['US-001']?.attempts.map((a) => a.status)).toEqual([
+      'completed',
+      'rolled_back',
+    ]);
+    expect(state?.stories['US-002']?.attempts[0]?.status).toBe('rolled_back');
+    expect(state?.blockedStories).toEqual(['US-001']);
+  });
+
+  it('should add every role to the cost without replacing the agent stats', () => {
+    const stats = (turns: number) => ({
+      turns,
+      toolCalls: {},
+      filesEdited: [],
+      usage: { inputTokens: 10, outputTokens: 5, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 },
+    });
+    const state = replay(
+      { type: 'iteration:started', storyId: 'US-001', startSha: 'aaa' },
+      { type: 'iteration:stats', storyId: 'US-001', stats: stats(2), costUsd: 1, role: 'planner' },
+      { type: 'iteration:stats', storyId: 'US-001', stats: stats(3), costUsd: 0.5 },
+      { type: 'iteration:stats', storyId: 'US-001', stats: stats(1), costUsd: 0.25, role: 'reviewer' }
+    );
+
+    const iteration = state?.stories['US-001']?.attempts[0];
+    expect(iteration).toMatchObject({
+      costUsd: 1.75,
+      planStats: { turns: 2 },
+      agentStats: { turns: 3 },
+      reviewStats: { turns: 1 },
+    });
+    expect(state?.usage.run).toMatchObject({ costUsd: 1.75, tokens: { inputTokens: 30 } });
+  });
+
+  it('should roll back everything', () => {
+    const state = replay(
+      { type: 'iteration:started', storyId: 'US-001', startSha: 'aaa' },
+      { type: 'iteration:failed', storyId: 'US-001', error: 'x', reason: 'agent', maxAttempts: 1 },
+      { type: 'rollback' }
+    );
+
+    expect(state).toMatchObject({ currentIteration: 0, blockedStories: [] });
+    expect(state?.stories['US-001']?.attempts[0]?.status).toBe('rolled_back');
+  });
+});
+
+describe('StateJournal', () => {
+  let dir: string;
+  let journal: StateJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'gushter-journal-'));
+    journal = new StateJournal(dir);
+    journal.append({
+      type: 'run:started',
+      at: '2026-01-01T00:00:00.000Z',
+      branchName: 'gushter/feature',
+      maxIterations: 10,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should ignore a last line cut short by a crash', () => {
+    appendFileSync(journal.path, '{"type":"iteration:sta');
+
+    expect(journal.read()).toHaveLength(1);
+  });
+
+  it('should reject an invalid line before the end', () => {
+    appendFileSync(journal.path, '{"type":"unknown"}\n{"type":"rollback","at":"x"}\n');
+
+    expect(() => journal.read()).toThrow(/Invalid event on line 2/);
+  });
+});
@@ -1,17 +1,24 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { createInitialState, GushterState } from '../../src/types/state.js';
+import { StateMachine } from '../../src/core/state-machine.js';
 
 describe('State Types', () => {
   describe('createInitialState', () => {
     it('should create valid initial state', () => {
       const state = createInitialState('gushter/feature', 10);
 
-      expect(state.version).toBe(1);
+      expect(state.version).toBe(2);
       expect(state.branchName).toBe('gushter/feature');
       expect(state.currentIteration).toBe(0);
       expect(state.maxIterations).toBe(10);
-      expect(state.iterations).toEqual([]);
+      expect(state.stories).toEqual({});
       expect(state.blockedStories).toEqual([]);
+      expect(state.usage.run.costUsd).toBe(0);
+      expect(state.usage.stories).toEqual({});
       expect(state.startedAt).toBeDefined();
       expect(state.lastUpdatedAt).toBeDefined();
     });
@@ -46,3 +53,133 @@ describe('State Transitions', () => {
     expect(validTransitions.failed).toContain('blocked');
   });
 });
+
+describe('StateMachine resume', () => {
+  let cwd: string;
+
+  const writeState = (state: GushterState) => {
+    mkdirSync(join(cwd, '.gushter'), { recursive: true });
+    writeFileSync(join(cwd, '.gushter', 'state.json'), JSON.stringify(state));
+  };
+
+  const interruptedState = (): GushterState => ({
+    ...createInitialState('gushter/feature', 10),
+    currentIteration: 4,
+    stories: {
+      'US-001': {
+        attempts: [
+          { storyId: 'US-001', status: 'completed', startSha: 'aaa', retryCount: 0, timeoutCount: 0 },
+        ],
+      },
+      'US-002': {
+        attempts: [
+          { storyId: 'US-002', status: 'in_progress', startSha: 'bbb', retryCount: 1, timeoutCount: 0 },
+        ],
+      },
+    },
+  });
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-state-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  const createMachine = (branchName: string, resume?: boolean) =>
+    new StateMachine({ cwd, maxIterations: 10, branchName, resume });
+
+  it('should continue the saved run when resuming', () => {
+    writeState(interruptedState());
+
+    const machine = createMachine('gushter/feature', true);
+
+    expect(machine.getCurrentIteration()).toBe(4);
+    expect(machine.getInterruptedIterations().map((i) => i.storyId)).toEqual(['US-002']);
+  });
+
+  it('should start a fresh run without resume', () => {
+    writeState(interruptedState());
+
+    const machine = createMachine('gushter/feature');
+
+    expect(machine.getCurrentIteration()).toBe(0);
+    expect(machine.getInterruptedIterations()).toEqual([]);
+  });
+
+  it('should not resume a run from another branch', () => {
+    writeState(interruptedState());
+
+    const machine = createMachine('gushter/other', true);
+
+    expect(machine.getCurrentIteration()).toBe(0);
+  });
+
+  it('should keep interrupted iterations resumable', () => {
+    writeState(interruptedState());
+    const machine = createMachine('gushter/feature', true);
+
+    machine.markInterrupted('US-002');
+    const resumed = createMachine('gushter/feature', true);
+    expect(resumed.getInterruptedIterations()).toMatchObject([
+      { storyId: 'US-002', status: 'interrupted', error: 'Interrupted' },
+    ]);
+
+    resumed.reopenIteration('US-002');
+    expect(resumed.getInterruptedIterations()).toMatchObject([
+      { storyId: 'US-002', status: 'in_progress' },
+    ]);
+  });
+});
+
+describe('StateMachine attempt history', () => {
+  let cwd: string;
+
+  const run = (command: string) => execSync(command, { cwd, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-history-'));
+    run('git init -q');
+    run('git config user.name Test && git config user.email test@example.com');
+    run('git commit -q --allow-empty -m initial');
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should keep every attempt of a story in order', () => {
+    const machine = new StateMachine({ cwd, maxIterations: 10, branchName: 'gushter/feature' });
+
+    machine.startIteration('US-001');
+    machine.failIteration('US-001', 'Tests fail', 3, { reason: 'verification' });
+    machine.startIteration('US-001');
+    machine.failIteration('US-001', 'Agent timed out', 2, { reason: 'timeout' });
+    machine.startIteration('US-001');
+    machine.completeIteration('US-001');
+
+    const attempts = machine.getAttempts('US-001');
+    expect(attempts.map((a) => a.status)).toEqual(['failed', 'failed', 'completed']);
+    expect(attempts.map((a) => a.error)).toEqual(['Tests fail', 'Agent timed out', undefined]);
+    expect(attempts.map((a) => a.number)).toEqual([1, 2, 3]);
+    expect(attempts[2]).toMatchObject({ retryCount: 1, timeoutCount: 1 });
+    expect(attempts[2]?.endSha).toBe(run('git rev-parse HEAD'));
+  });
+
+  it('should take attempt counts from the last attempt that was not rolled back', () => {
+    const machine = new StateMachine({ cwd, maxIterations: 10, branchName: 'gushter/feature' });
+
+    machine.startIteration('US-001');
+    machine.failIteration('US-001', 'Tests fail', 3);
+    machine.startIteration('US-001');
+    machine.markRolledBack('US-001');
+
+    expect(machine.startIteration('US-001').retryCount).toBe(1);
+    expect(machine.getAttempts('US-001').map((a) => a.status)).toEqual([
+      'failed',
+      'rolled_back',
+      'in_progress',
+    ]);
+  });
+});
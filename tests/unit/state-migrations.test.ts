@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInitialState } from '../../src/types/state.js';
+import {
+  CURRENT_STATE_VERSION,
+  StateMigrationError,
+  migrateState,
+} from '../../src/core/state-migrations.js';
+import { StateMachine } from '../../src/core/state-machine.js';
+
+const versionOneState = () => {
+  const { stories: _stories, ...rest } = createInitialState('gushter/feature', 10);
+  return {
+    ...rest,
+    version: 1,
+    iterations: [
+      { storyId: 'US-001', status: 'completed', startSha: 'aaa', retryCount: 0, timeoutCount: 0 },
+      { storyId: 'US-002', status: 'failed', startSha: 'bbb', retryCount: 2, timeoutCount: 0 },
+    ],
+  };
+};
+
+describe('migrateState', () => {
+  it('should read version 1 state as one attempt per story', () => {
+    const { state, fromVersion } = migrateState(versionOneState());
+
+    expect(fromVersion).toBe(1);
+    expect(state.version).toBe(CURRENT_STATE_VERSION);
+    expect(Object.keys(state.stories)).toEqual(['US-001', 'US-002']);
+    expect(state.stories['US-002']?.attempts[0]).toMatchObject({ status: 'failed', retryCount: 2 });
+  });
+
+  it('should leave current state unchanged', () => {
+    const current = createInitialState('gushter/feature', 10);
+
+    expect(migrateState(current)).toEqual({ state: current, fromVersion: CURRENT_STATE_VERSION });
+  });
+
+  it('should reject state from a newer version', () => {
+    const future = { ...createInitialState('gushter/feature', 10), version: CURRENT_STATE_VERSION + 1 };
+
+    expect(() => migrateState(future)).toThrow(/newer than this Gushter supports/);
+  });
+
+  it('should reject state without a version', () => {
+    const { version: _version, ...unversioned } = createInitialState('gushter/feature', 10);
+
+    expect(() => migrateState(unversioned)).toThrow(StateMigrationError);
+    expect(() => migrateState([])).toThrow('State is not a JSON object');
+  });
+
+  it('should name the fields that fail validation', () => {
+    const broken = { ...versionOneState(), branchName: 42 };
+
+    expect(() => migrateState(broken)).toThrow(
+      /Invalid state after migrating from version 1: branchName: Expected string/
+    );
+  });
+});
+
+describe('StateMachine with unreadable state', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-migrate-'));
+    execSync('git init -q', { cwd });
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should refuse to start over instead of discarding the history', () => {
+    mkdirSync(join(cwd, '.gushter'));
+    const statePath = join(cwd, '.gushter', 'state.json');
+    const content = JSON.stringify({ ...createInitialState('gushter/feature', 10), version: 99 });
+    writeFileSync(statePath, content);
+
+    expect(
+      () => new StateMachine({ cwd, maxIterations: 10, branchName: 'gushter/feature' })
+    ).toThrow(StateMigrationError);
+    expect(readFileSync(statePath, 'utf-8')).toBe(content);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInitialState } from '../../src/types/state.js';
+import { CURRENT_STATE_VERSION } from '../../src/core/state-migrations.js';
+import { StateLockError, StateStore } from '../../src/core/state-store.js';
+
+describe('StateStore', () => {
+  let cwd: string;
+  let gushterDir: string;
+  let statePath: string;
+  let lockPath: string;
+
+  const writeLock = (pid: number, host = hostname()) => {
+    mkdirSync(gushterDir, { recursive: true });
+    writeFileSync(lockPath, JSON.stringify({ pid, hostname: host, startedAt: '2026-01-01T00:00:00Z' }));
+  };
+
+  // The PID of a process that has already exited
+  const deadPid = () => spawnSync(process.execPath, ['-e', '']).pid;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-store-'));
+    gushterDir = join(cwd, '.gushter');
+    statePath = join(gushterDir, 'state.json');
+    lockPath = join(gushterDir, 'run.lock');
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('load', () => {
+    it('should return null when there is no state file', () => {
+      expect(new StateStore(cwd).load()).toBeNull();
+    });
+
+    it('should back up an old file and rewrite it in the current format', () => {
+      mkdirSync(gushterDir);
+      const { stories: _stories, ...rest } = createInitialState('gushter/feature', 10);
+      const original = JSON.stringify({
+        ...rest,
+        version: 1,
+        iterations: [{ storyId: 'US-001', status: 'failed', startSha: 'aaa', retryCount: 1 }],
+      });
+      writeFileSync(statePath, original);
+
+      const state = new StateStore(cwd).load();
+
+      expect(state?.version).toBe(CURRENT_STATE_VERSION);
+      const backups = readdirSync(gushterDir).filter((name) => name.startsWith('state.v1.'));
+      expect(backups).toHaveLength(1);
+      expect(readFileSync(join(gushterDir, backups[0]!), 'utf-8')).toBe(original);
+      expect(JSON.parse(readFileSync(statePath, 'utf-8'))).toEqual(state);
+    });
+
+    it('should not rewrite a current file', () => {
+      mkdirSync(gushterDir);
+      writeFileSync(statePath, JSON.stringify(createInitialState('gushter/feature', 10)));
+
+      new StateStore(cwd).load();
+
+      expect(readdirSync(gushterDir)).toEqual(['state.json']);
+    });
+
+    it('should throw with the file path when the file is not valid JSON', () => {
+      mkdirSync(gushterDir);
+      writeFileSync(statePath, '{ "version": ');
+
+      expect(() => new StateStore(cwd).load()).toThrow(`Cannot load ${statePath}`);
+    });
+  });
+
+  describe('save', () => {
+    it('should write the state without leaving a temp file behind', () => {
+      const store = new StateStore(cwd);
+      const state = createInitialState('gushter/feature', 10);
+
+      store.save(state);
+
+      expect(store.load()).toEqual(state);
+      expect(readdirSync(gushterDir)).toEqual(['state.json']);
+    });
+
+    it('should keep the previous files as rotating backups', () => {
+      const store = new StateStore(cwd, { backups: 2 });
+      for (const maxIterations of [1, 2, 3, 4]) {
+        store.save(createInitialState('gushter/feature', maxIterations));
+      }
+
+      const maxIterationsIn = (path: string) =>
+        JSON.parse(readFileSync(path, 'utf-8')).maxIterations;
+      expect(maxIterationsIn(statePath)).toBe(4);
+      expect(maxIterationsIn(`${statePath}.1`)).toBe(3);
+      expect(maxIterationsIn(`${statePath}.2`)).toBe(2);
+      expect(existsSync(`${statePath}.3`)).toBe(false);
+    });
+  });
+
+  describe('run lock', () => {
+    it('should record this process and release the lock', () => {
+      const store = new StateStore(cwd);
+
+      store.acquireLock();
+      expect(store.readLock()).toMatchObject({ pid: process.pid, hostname: hostname() });
+
+      store.releaseLock();
+      expect(existsSync(lockPath)).toBe(false);
+    });
+
+    it('should refuse a second lock while the holder is alive', () => {
+      const first = new StateStore(cwd);
+      first.acquireLock();
+
+      expect(() => new StateStore(cwd).acquireLock()).toThrow(StateLockError);
+      expect(() => new StateStore(cwd).acquireLock()).toThrow(`PID ${process.pid}`);
+
+      first.releaseLock();
+    });
+
+    it('should replace a lock left by a process that died', () => {
+      writeLock(deadPid());
+      const store = new StateStore(cwd);
+
+      expect(store.readLock()).toBeNull();
+      store.acquireLock();
+
+      expect(store.readLock()?.pid).toBe(process.pid);
+      store.releaseLock();
+    });
+
+    it('should trust a lock held on another host', () => {
+      writeLock(deadPid(), 'some-other-host');
+
+      expect(new StateStore(cwd).readLock()?.hostname).toBe('some-other-host');
+      expect(() => new StateStore(cwd).acquireLock()).toThrow(StateLockError);
+    });
+
+    it('should not remove a lock it does not hold', () => {
+      writeLock(process.pid);
+
+      new StateStore(cwd).releaseLock();
+
+      expect(existsSync(lockPath)).toBe(true);
+    });
+  });
+});
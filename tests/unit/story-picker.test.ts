@@ -128,6 +128,84 @@ describe('StoryPicker', () => {
     });
   });
 
+  describe('skipStory', () => {
+    it('should leave skipped stories out without blocking them', () => {
+      const prd = createTestPrd();
+      const picker = new StoryPicker(prd);
+
+      picker.skipStory('US-001');
+
+      expect(picker.getNextStory()?.id).toBe('US-002');
+      expect(picker.isSkipped('US-001')).toBe(true);
+      expect(picker.getBlockedCount()).toBe(0);
+    });
+
+    it('should treat skipped stories as done for the run', () => {
+      const prd = createTestPrd();
+      const picker = new StoryPicker(prd, { blockedStories: ['US-002'] });
+
+      picker.skipStory('US-001');
+
+      expect(picker.isAllCompletedOrBlocked()).toBe(true);
+      expect(picker.isAllComplete()).toBe(false);
+    });
+  });
+
+  describe('dependencies', () => {
+    const withDependencies = (): Prd => {
+      const prd = createTestPrd();
+      prd.userStories[0]!.dependsOn = ['US-002', 'US-003'];
+      prd.userStories.push({
+        id: 'US-004',
+        title: 'Fourth Story',
+        description: 'Fourth story description',
+        acceptanceCriteria: ['Criterion 4'],
+        priority: 0,
+        passes: false,
+        notes: '',
+        dependsOn: ['US-001'],
+      });
+      return prd;
+    };
+
+    it('should not pick stories whose dependencies have not passed', () => {
+      const picker = new StoryPicker(withDependencies());
+
+      expect(picker.getNextStory()?.id).toBe('US-002');
+      expect(picker.getWaitingStories().map((s) => s.id)).toEqual(['US-004', 'US-001']);
+    });
+
+    it('should pick a story once its dependencies pass', () => {
+      const prd = withDependencies();
+      prd.userStories[1]!.passes = true;
+      const picker = new StoryPicker(prd);
+
+      expect(picker.getNextStory()?.id).toBe('US-001');
+    });
+
+    it('should make dependents of a blocked story wait on it transitively', () => {
+      const picker = new StoryPicker(withDependencies(), { blockedStories: ['US-002'] });
+
+      expect(picker.getNextStory()).toBeNull();
+      expect(picker.isAllCompletedOrBlocked()).toBe(true);
+      expect(picker.getWaitingOn(picker.getWaitingStories()[0]!)).toEqual(['US-002']);
+    });
+
+    it('should leave out stories that are already running', () => {
+      const prd = withDependencies();
+      prd.userStories[0]!.dependsOn = [];
+      const picker = new StoryPicker(prd);
+
+      expect(picker.getNextStory(new Set(['US-001']))?.id).toBe('US-002');
+    });
+
+    it('should not return a targeted story that is waiting', () => {
+      const picker = new StoryPicker(withDependencies(), { targetStory: 'US-001' });
+
+      expect(picker.getNextStory()).toBeNull();
+    });
+  });
+
   describe('counts', () => {
     it('should return correct counts', () => {
       const prd = createTestPrd();
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { StreamJsonParser, formatAgentEvent } from '../../src/agents/stream-json.js';
+
+const line = (event: unknown) => JSON.stringify(event) + '\n';
+
+const assistant = (id: string, content: unknown[], usage = { input_tokens: 10, output_tokens: 5 }) =>
+  line({ type: 'assistant', message: { id, model: 'claude-sonnet', content, usage } });
+
+describe('StreamJsonParser', () => {
+  it('should parse events split across chunks', () => {
+    const parser = new StreamJsonParser();
+    const stream = line({ type: 'system', subtype: 'init', model: 'claude-sonnet', session_id: 's1' });
+
+    expect(parser.push(stream.slice(0, 10))).toEqual([]);
+    expect(parser.push(stream.slice(10))).toEqual([
+      { type: 'init', model: 'claude-sonnet', sessionId: 's1' },
+    ]);
+  });
+
+  it('should collect tool calls and edited files', () => {
+    const parser = new StreamJsonParser();
+    parser.push(
+      assistant('m1', [
+        { type: 'text', text: 'Editing' },
+        { type: 'tool_use', name: 'Edit', input: { file_path: 'src/a.ts' } },
+        { type: 'tool_use', name: 'Bash', input: { command: 'npm test' } },
+      ]) +
+        assistant('m2', [
+          { type: 'tool_use', name: 'Edit', input: { file_path: 'src/a.ts' } },
+          { type: 'tool_use', name: 'Write', input: { file_path: 'src/b.ts' } },
+        ])
+    );
+
+    const stats = parser.getStats();
+    expect(stats.model).toBe('claude-sonnet');
+    expect(stats.toolCalls).toEqual({ Edit: 2, Bash: 1, Write: 1 });
+    expect(stats.filesEdited).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('should count usage once per message', () => {
+    const parser = new StreamJsonParser();
+    parser.push(
+      assistant('m1', [{ type: 'text', text: 'a' }]) +
+        assistant('m1', [{ type: 'tool_use', name: 'Read', input: {} }]) +
+        assistant('m2', [{ type: 'text', text: 'b' }])
+    );
+
+    const stats = parser.getStats();
+    expect(stats.turns).toBe(2);
+    expect(stats.usage.inputTokens).toBe(20);
+    expect(stats.usage.outputTokens).toBe(10);
+  });
+
+  it('should prefer totals from the result event', () => {
+    const parser = new StreamJsonParser();
+    parser.push(assistant('m1', [{ type: 'text', text: 'working' }]));
+    const events = parser.push(
+      line({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        num_turns: 7,
+        duration_ms: 1200,
+        result: 'Done\n```json:gushter-output\n{}\n```',
+        usage: { input_tokens: 100, output_tokens: 50, cache_read_input_tokens: 30 },
+      })
+    );
+
+    expect(events).toEqual([
+      {
+        type: 'result',
+        text: 'Done\n```json:gushter-output\n{}\n```',
+        isError: false,
+        turns: 7,
+        durationMs: 1200,
+      },
+    ]);
+    expect(parser.getOutput()).toContain('json:gushter-output');
+    expect(parser.getStats().turns).toBe(7);
+    expect(parser.getStats().usage).toEqual({
+      inputTokens: 100,
+      outputTokens: 50,
+      cacheReadInputTokens: 30,
+      cacheCreationInputTokens: 0,
+    });
+  });
+
+  it('should fall back to assistant text without a result event', () => {
+    const parser = new StreamJsonParser();
+    parser.push(assistant('m1', [{ type: 'text', text: 'first' }]));
+    parser.push('not json');
+    parser.flush();
+
+    expect(parser.getOutput()).toBe('first\nnot json');
+  });
+});
+
+describe('formatAgentEvent', () => {
+  it('should show tool targets', () => {
+    expect(formatAgentEvent({ type: 'tool_use', name: 'Edit', input: { file_path: 'src/a.ts' } })).toBe(
+      '[tool] Edit src/a.ts\n'
+    );
+    expect(formatAgentEvent({ type: 'tool_use', name: 'TodoWrite', input: {} })).toBe(
+      '[tool] TodoWrite\n'
+    );
+  });
+});
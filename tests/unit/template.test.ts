@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate } from '../../src/utils/template.js';
+
+describe('renderTemplate', () => {
+  const context = {
+    story: {
+      id: 'US-001',
+      title: 'Add login form',
+      acceptanceCriteria: ['Form renders', 'Typecheck passes'],
+    },
+    retryCount: 0,
+    previousError: '',
+  };
+
+  it('should substitute nested values', () => {
+    expect(renderTemplate('{{story.id}}: {{ story.title }}', context)).toBe(
+      'US-001: Add login form'
+    );
+  });
+
+  it('should render arrays as bullet lists', () => {
+    expect(renderTemplate('{{story.acceptanceCriteria}}', context)).toBe(
+      '- Form renders\n- Typecheck passes'
+    );
+  });
+
+  it('should render missing values as empty strings', () => {
+    expect(renderTemplate('[{{story.missing}}][{{nope.deep.path}}]', context)).toBe('[][]');
+  });
+
+  it('should render numbers including zero', () => {
+    expect(renderTemplate('retry {{retryCount}}', context)).toBe('retry 0');
+  });
+
+  it('should show sections only when the value is truthy', () => {
+    const template = '{{#previousError}}Error: {{previousError}}{{/previousError}}';
+
+    expect(renderTemplate(template, context)).toBe('');
+    expect(renderTemplate(template, { ...context, previousError: 'tests failed' })).toBe(
+      'Error: tests failed'
+    );
+  });
+
+  it('should show inverted sections only when the value is falsy', () => {
+    const template = '{{^previousError}}First attempt{{/previousError}}';
+
+    expect(renderTemplate(template, context)).toBe('First attempt');
+    expect(renderTemplate(template, { ...context, previousError: 'boom' })).toBe('');
+  });
+
+  it('should treat empty arrays as falsy in sections', () => {
+    expect(renderTemplate('{{#items}}has items{{/items}}', { items: [] })).toBe('');
+  });
+
+  it('should not expand tags inside substituted values', () => {
+    const template = '{{#e}}Err: {{e}}{{/e}} / {{e}}';
+
+    expect(renderTemplate(template, { e: 'expected "{{ user.name }}"' })).toBe(
+      'Err: expected "{{ user.name }}" / expected "{{ user.name }}"'
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  IterationTranscript,
+  createRunId,
+  listTranscripts,
+} from '../../src/core/transcript.js';
+
+describe('createRunId', () => {
+  it('should produce a filesystem-safe timestamp', () => {
+    expect(createRunId(new Date('2025-01-02T03:04:05.678Z'))).toBe('2025-01-02T03-04-05-678Z');
+  });
+});
+
+describe('IterationTranscript', () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gushter-transcript-'));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should store files under the run and iteration directory', () => {
+    const transcript = new IterationTranscript(cwd, 'run-1', 3, 'US-001');
+
+    expect(transcript.dir).toBe(join('.gushter', 'runs', 'run-1', '3-US-001'));
+
+    transcript.writePrompt('Do the thing');
+    transcript.appendOutput('part 1 ', 'stdout');
+    transcript.appendOutput('part 2', 'stdout');
+    transcript.appendOutput('warning', 'stderr');
+
+    const dir = join(cwd, transcript.dir);
+    expect(readFileSync(join(dir, 'prompt.md'), 'utf-8')).toBe('Do the thing');
+    expect(readFileSync(join(dir, 'stdout.log'), 'utf-8')).toBe('part 1 part 2');
+    expect(readFileSync(join(dir, 'stderr.log'), 'utf-8')).toBe('warning');
+  });
+
+  it('should reopen an existing transcript directory', () => {
+    const original = new IterationTranscript(cwd, 'run-1', 7, 'US-003');
+    original.appendOutput('before restart\n', 'stdout');
+
+    const reopened = IterationTranscript.open(cwd, original.dir);
+    reopened.appendOutput('after restart\n', 'stdout');
+
+    expect(reopened.dir).toBe(original.dir);
+    expect(readFileSync(join(cwd, original.dir, 'stdout.log'), 'utf-8')).toBe(
+      'before restart\nafter restart\n'
+    );
+  });
+
+  it('should write verification output per command', () => {
+    const transcript = new IterationTranscript(cwd, 'run-1', 1, 'US-002');
+
+    transcript.writeVerification({
+      success: false,
+      totalDurationMs: 20,
+      results: [
+        { name: 'type check', command: 'tsc', success: false, output: 'error TS1', durationMs: 10 },
+        { name: 'test', command: 'vitest', success: true, output: 'ok', durationMs: 10 },
+      ],
+    });
+
+    const dir = join(cwd, transcript.dir);
+    expect(readdirSync(join(dir, 'verification')).sort()).toEqual(['1-type_check.log', '2-test.log']);
+    const summary = JSON.parse(readFileSync(join(dir, 'verification.json'), 'utf-8'));
+    expect(summary.results[0]).toEqual({
+      name: 'type check',
+      command: 'tsc',
+      success: false,
+      durationMs: 10,
+    });
+  });
+
+  it('should list transcripts across runs in order', () => {
+    new IterationTranscript(cwd, 'run-b', 1, 'US-003');
+    new IterationTranscript(cwd, 'run-a', 10, 'US-002');
+    new IterationTranscript(cwd, 'run-a', 2, 'US-001');
+
+    expect(listTranscripts(cwd).map((t) => [t.runId, t.iteration, t.storyId])).toEqual([
+      ['run-a', 2, 'US-001'],
+      ['run-a', 10, 'US-002'],
+      ['run-b', 1, 'US-003'],
+    ]);
+  });
+
+  it('should return no transcripts before the first run', () => {
+    expect(listTranscripts(cwd)).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateCost,
+  findModelPrice,
+  formatDuration,
+  formatTokens,
+} from '../../src/core/usage.js';
+
+const usage = (inputTokens: number, outputTokens: number, cacheRead = 0, cacheWrite = 0) => ({
+  inputTokens,
+  outputTokens,
+  cacheReadInputTokens: cacheRead,
+  cacheCreationInputTokens: cacheWrite,
+});
+
+describe('findModelPrice', () => {
+  it('should match the longest model prefix', () => {
+    expect(findModelPrice('claude-opus-4-5-20251101')?.inputPerMTok).toBe(5);
+    expect(findModelPrice('claude-opus-4-1-20250805')?.inputPerMTok).toBe(15);
+  });
+
+  it('should let configured prices override defaults', () => {
+    const price = findModelPrice('claude-sonnet-4-5', {
+      'claude-sonnet-4': { inputPerMTok: 1, outputPerMTok: 2 },
+    });
+
+    expect(price).toEqual({ inputPerMTok: 1, outputPerMTok: 2 });
+  });
+
+  it('should fall back to the default entry', () => {
+    const pricing = { default: { inputPerMTok: 7, outputPerMTok: 9 } };
+
+    expect(findModelPrice('gpt-5', pricing)?.inputPerMTok).toBe(7);
+    expect(findModelPrice(undefined, pricing)?.inputPerMTok).toBe(7);
+    expect(findModelPrice('gpt-5')).toBeUndefined();
+  });
+});
+
+describe('estimateCost', () => {
+  it('should price input and output tokens per million', () => {
+    expect(estimateCost(usage(1_000_000, 100_000), 'claude-sonnet-4-5')).toBeCloseTo(4.5);
+  });
+
+  it('should derive cache prices from the input price', () => {
+    expect(estimateCost(usage(0, 0, 1_000_000, 1_000_000), 'claude-sonnet-4')).toBeCloseTo(
+      0.3 + 3.75
+    );
+  });
+
+  it('should return undefined for unpriced models', () => {
+    expect(estimateCost(usage(100, 100), 'unknown-model')).toBeUndefined();
+  });
+});
+
+describe('formatting', () => {
+  it('should format token counts', () => {
+    expect(formatTokens(950)).toBe('950');
+    expect(formatTokens(12_345)).toBe('12.3k');
+    expect(formatTokens(2_500_000)).toBe('2.5M');
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+    expect(formatDuration(3_900_000)).toBe('1h 5m');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { VerificationPipeline, PipelineResult, tailOutput } from '../../src/verification/pipeline.js';
+
+describe('tailOutput', () => {
+  it('should keep short output unchanged', () => {
+    expect(tailOutput('line 1\nline 2\n', 10)).toBe('line 1\nline 2');
+  });
+
+  it('should keep only the last lines and note the omission', () => {
+    const output = Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    expect(tailOutput(output, 3)).toBe(
+      '… (7 earlier lines omitted)\nline 8\nline 9\nline 10'
+    );
+  });
+
+  it('should truncate very long lines', () => {
+    const tail = tailOutput('x'.repeat(1000), 5);
+
+    expect(tail.length).toBe(501);
+    expect(tail.endsWith('…')).toBe(true);
+  });
+});
+
+describe('VerificationPipeline.summarizeFailures', () => {
+  const pipeline = new VerificationPipeline(
+    [
+      { name: 'typecheck', command: 'npm run typecheck', optional: false },
+      { name: 'lint', command: 'npm run lint', optional: true },
+      { name: 'test', command: 'npm test', optional: false },
+    ],
+    process.cwd(),
+    true
+  );
+
+  const result: PipelineResult = {
+    success: false,
+    totalDurationMs: 30,
+    results: [
+      { name: 'typecheck', command: 'npm run typecheck', success: false, output: 'a\nb\nc', durationMs: 10 },
+      { name: 'lint', command: 'npm run lint', success: false, output: 'lint error', durationMs: 10 },
+      { name: 'test', command: 'npm test', success: true, output: 'ok', durationMs: 10 },
+    ],
+  };
+
+  it('should report only required commands that failed', () => {
+    const failures = pipeline.summarizeFailures(result, 2);
+
+    expect(failures).toEqual([
+      {
+        name: 'typecheck',
+        command: 'npm run typecheck',
+        outputTail: '… (1 earlier lines omitted)\nb\nc',
+      },
+    ]);
+  });
+});
+
+describe('VerificationPipeline.run', () => {
+  it('should report each command result as it finishes', async () => {
+    const pipeline = new VerificationPipeline(
+      [
+        { name: 'pass', command: 'true', optional: false },
+        { name: 'fail', command: 'false', optional: true },
+      ],
+      process.cwd()
+    );
+    const reported: string[] = [];
+
+    const result = await pipeline.run((r) => reported.push(`${r.name}:${r.success}`));
+
+    expect(reported).toEqual(['pass:true', 'fail:false']);
+    expect(result.success).toBe(true);
+  });
+
+  it('should keep the event loop running while a command runs', async () => {
+    const pipeline = new VerificationPipeline(
+      [{ name: 'slow', command: 'sleep 0.3', optional: false }],
+      process.cwd()
+    );
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 20);
+
+    const result = await pipeline.run().finally(() => clearInterval(timer));
+
+    expect(result.success).toBe(true);
+    expect(ticks).toBeGreaterThan(3);
+  });
+
+  it('should kill a command that runs past its timeout', async () => {
+    const pipeline = new VerificationPipeline(
+      [{ name: 'hang', command: 'echo started; sleep 10', optional: false }],
+      process.cwd(),
+      false,
+      200
+    );
+
+    const result = await pipeline.run();
+
+    expect(result.success).toBe(false);
+    expect(result.results[0]?.output).toBe('started\nTimed out after 200ms');
+    expect(result.totalDurationMs).toBeLessThan(5000);
+  });
+
+  it('should stop when aborted, killing the running command', async () => {
+    const pipeline = new VerificationPipeline(
+      [
+        { name: 'hang', command: 'sleep 10', optional: false },
+        { name: 'never', command: 'true', optional: false },
+      ],
+      process.cwd()
+    );
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await pipeline.run(undefined, controller.signal);
+
+    expect(result).toMatchObject({ success: false, aborted: true, results: [] });
+    expect(result.totalDurationMs).toBeLessThan(5000);
+  });
+});